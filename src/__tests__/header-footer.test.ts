@@ -0,0 +1,353 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Editor } from '@tiptap/core'
+import StarterKit from '@tiptap/starter-kit'
+import { Pagination, PageBreak } from '@/extensions'
+import {
+  FIRST_PAGE_HEADER_CLASS,
+  LAST_PAGE_FOOTER_CLASS,
+  HEADER_FOOTER_SLOT_CLASS,
+  HEADER_FOOTER_EDITING_CLASS,
+  PAGE_HEADER_ATTR,
+  PAGE_FOOTER_ATTR,
+  PAGE_HEADER_CLASS,
+  PAGE_FOOTER_CLASS,
+  FIRST_PAGE_HEADER_ATTR,
+  EVEN_PAGE_FOOTER_ATTR,
+  sanitizeHeaderFooterHtml,
+  getHeaderFooterVariant,
+} from '@/extensions'
+
+// One hard break at the top of page 1 forces a second page, even in jsdom.
+const TWO_PAGE_CONTENT = '<p>Page one</p><div data-page-break="true"></div><p>Page two</p>'
+
+function waitForPagination() {
+  return new Promise(resolve => setTimeout(resolve, 50))
+}
+
+describe('Header/Footer', () => {
+  let editor: Editor
+  let container: HTMLDivElement
+
+  function createEditor(options: Parameters<typeof Pagination.configure>[0] = {}, content: string | Record<string, unknown> = '<p>Test content</p>') {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+    editor = new Editor({
+      element: container,
+      extensions: [StarterKit, PageBreak, Pagination.configure(options)],
+      content,
+    })
+    return editor
+  }
+
+  function slot(root: ParentNode, area: 'header' | 'footer', name: 'left' | 'center' | 'right') {
+    return root.querySelector(
+      `.${HEADER_FOOTER_SLOT_CLASS}[data-ctp-area="${area}"][data-ctp-slot="${name}"]`
+    ) as HTMLElement | null
+  }
+
+  beforeEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  afterEach(() => {
+    editor?.destroy()
+    document.body.innerHTML = ''
+  })
+
+  describe('sanitizeHeaderFooterHtml', () => {
+    it('should keep inline formatting, links and images', () => {
+      const html = '<strong>ACME</strong> <em>LLP</em> <a href="https://acme.test">site</a> <img src="https://acme.test/logo.png" alt="Logo">'
+      expect(sanitizeHeaderFooterHtml(html)).toBe(html)
+    })
+
+    it('should unwrap unknown elements and drop scripts', () => {
+      expect(sanitizeHeaderFooterHtml('<div><p>Matter <b>42</b></p></div><script>alert(1)</script>'))
+        .toBe('Matter <b>42</b>')
+    })
+
+    it('should drop event handlers and unsafe URLs', () => {
+      const result = sanitizeHeaderFooterHtml('<a href="javascript:alert(1)" onclick="x()">x</a><img src="x" onerror="y()">')
+      expect(result).toBe('<a>x</a><img>')
+    })
+  })
+
+  describe('Document storage', () => {
+    it('should use configured defaults as document attributes', () => {
+      createEditor({ header: { left: 'ACME LLP' } })
+      expect(editor.state.doc.attrs[PAGE_HEADER_ATTR]).toEqual({ left: 'ACME LLP' })
+      expect(editor.state.doc.attrs[PAGE_FOOTER_ATTR]).toEqual({})
+    })
+
+    it('should store header/footer content with the document', () => {
+      createEditor()
+      editor.commands.setPageHeader({ center: '<strong>Smith v. Jones</strong>' })
+      editor.commands.setPageFooter({ left: 'Matter 2024-001' })
+
+      const json = editor.getJSON()
+      expect(json.attrs?.[PAGE_HEADER_ATTR]).toEqual({ center: '<strong>Smith v. Jones</strong>' })
+      expect(json.attrs?.[PAGE_FOOTER_ATTR]).toEqual({ left: 'Matter 2024-001' })
+    })
+
+    it('should merge slots and clear empty ones', () => {
+      createEditor()
+      editor.commands.setPageHeader({ left: 'Left', right: 'Right' })
+      editor.commands.setPageHeader({ right: '' })
+      expect(editor.state.doc.attrs[PAGE_HEADER_ATTR]).toEqual({ left: 'Left' })
+    })
+
+    it('should restore header/footer when loading saved JSON', () => {
+      createEditor({}, {
+        type: 'doc',
+        attrs: { [PAGE_HEADER_ATTR]: { right: 'Confidential' } },
+        content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Body' }] }],
+      })
+      expect(editor.state.doc.attrs[PAGE_HEADER_ATTR]).toEqual({ right: 'Confidential' })
+    })
+
+    it('should be undoable', () => {
+      createEditor()
+      editor.commands.setPageHeader({ left: 'Draft' })
+      editor.commands.undo()
+      expect(editor.state.doc.attrs[PAGE_HEADER_ATTR]).toEqual({})
+    })
+  })
+
+  describe('Rendering', () => {
+    it('should render header slots into the first page header', async () => {
+      createEditor({ header: { left: '<em>ACME</em>' } })
+      await waitForPagination()
+
+      const firstHeader = editor.view.dom.querySelector(`.${FIRST_PAGE_HEADER_CLASS}`) as HTMLElement
+      expect(slot(firstHeader, 'header', 'left')?.innerHTML).toBe('<em>ACME</em>')
+    })
+
+    it('should render footer slots and keep the page number in the right slot', async () => {
+      createEditor({ footer: { left: 'Matter 42' } })
+      await waitForPagination()
+
+      const lastFooter = editor.view.dom.querySelector(`.${LAST_PAGE_FOOTER_CLASS}`) as HTMLElement
+      expect(slot(lastFooter, 'footer', 'left')?.textContent).toBe('Matter 42')
+      expect(slot(lastFooter, 'footer', 'right')?.textContent).toBe('1 of 1')
+    })
+
+    it('should re-render overlays when the content changes', async () => {
+      createEditor()
+      await waitForPagination()
+      editor.commands.setPageHeader({ center: 'Updated' })
+      await waitForPagination()
+
+      const firstHeader = editor.view.dom.querySelector(`.${FIRST_PAGE_HEADER_CLASS}`) as HTMLElement
+      expect(slot(firstHeader, 'header', 'center')?.textContent).toBe('Updated')
+    })
+
+    it('should sanitize stored content when rendering', async () => {
+      createEditor({ header: { left: '<img src="x" onerror="alert(1)">Logo' } })
+      await waitForPagination()
+
+      const firstHeader = editor.view.dom.querySelector(`.${FIRST_PAGE_HEADER_CLASS}`) as HTMLElement
+      expect(slot(firstHeader, 'header', 'left')?.innerHTML).toBe('<img>Logo')
+    })
+
+    it('should only sanitize again when the content changes', async () => {
+      createEditor({ header: { left: '<strong>ACME</strong>' } }, '<p>Test content</p>')
+      await waitForPagination()
+      const createElement = vi.spyOn(document, 'createElement')
+      const sanitized = () => createElement.mock.calls.filter(([tag]) => tag === 'template').length
+
+      editor.commands.setTextSelection(3)
+      editor.commands.insertContent('more ')
+      expect(sanitized()).toBe(0)
+
+      editor.commands.setPageHeader({ center: 'Draft' })
+      expect(sanitized()).toBeGreaterThan(0)
+      createElement.mockRestore()
+    })
+  })
+
+  describe('Variants', () => {
+    it('should pick the variant for each page', () => {
+      const modes = { differentFirstPage: true, differentOddEven: true }
+      expect(getHeaderFooterVariant(1, modes)).toBe('first')
+      expect(getHeaderFooterVariant(2, modes)).toBe('even')
+      expect(getHeaderFooterVariant(3, modes)).toBe('default')
+      expect(getHeaderFooterVariant(1, { differentFirstPage: false, differentOddEven: true })).toBe('default')
+      expect(getHeaderFooterVariant(2, { differentFirstPage: false, differentOddEven: false })).toBe('default')
+    })
+
+    it('should store variants in their own document attributes', () => {
+      createEditor()
+      editor.commands.setPageHeader({ left: 'Letterhead' }, 'first')
+      editor.commands.setPageFooter({ right: 'Even' }, 'even')
+
+      expect(editor.state.doc.attrs[FIRST_PAGE_HEADER_ATTR]).toEqual({ left: 'Letterhead' })
+      expect(editor.state.doc.attrs[EVEN_PAGE_FOOTER_ATTR]).toEqual({ right: 'Even' })
+      expect(editor.state.doc.attrs[PAGE_HEADER_ATTR]).toEqual({})
+    })
+
+    it('should render a different first page header', async () => {
+      createEditor({
+        differentFirstPage: true,
+        header: { left: 'Running head' },
+        firstPageHeader: { left: 'Letterhead' },
+      }, TWO_PAGE_CONTENT)
+      await waitForPagination()
+      expect(editor.storage.pagination.pageCount).toBe(2)
+
+      const firstHeader = editor.view.dom.querySelector(`.${FIRST_PAGE_HEADER_CLASS}`) as HTMLElement
+      const secondHeader = editor.view.dom.querySelector(`.${PAGE_HEADER_CLASS}`) as HTMLElement
+      expect(slot(firstHeader, 'header', 'left')?.textContent).toBe('Letterhead')
+      expect(slot(firstHeader, 'header', 'left')?.dataset.ctpVariant).toBe('first')
+      expect(slot(secondHeader, 'header', 'left')?.textContent).toBe('Running head')
+    })
+
+    it('should mirror odd/even footers with the page number on the outside edge', async () => {
+      createEditor({
+        differentOddEven: true,
+        footer: { center: 'Odd' },
+        evenPageFooter: { center: 'Even' },
+      }, TWO_PAGE_CONTENT)
+      await waitForPagination()
+
+      const lastFooter = editor.view.dom.querySelector(`.${LAST_PAGE_FOOTER_CLASS}`) as HTMLElement
+      expect(slot(lastFooter, 'footer', 'center')?.textContent).toBe('Even')
+      expect(slot(lastFooter, 'footer', 'left')?.textContent).toBe('2 of 2')
+      expect(slot(lastFooter, 'footer', 'right')?.textContent).toBe('')
+    })
+
+    it('should save in-place edits to the variant being edited', async () => {
+      createEditor({ differentFirstPage: true })
+      await waitForPagination()
+
+      const firstHeader = editor.view.dom.querySelector(`.${FIRST_PAGE_HEADER_CLASS}`) as HTMLElement
+      const center = slot(firstHeader, 'header', 'center') as HTMLElement
+      center.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }))
+      center.innerHTML = 'Letterhead'
+      center.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }))
+
+      expect(editor.state.doc.attrs[FIRST_PAGE_HEADER_ATTR]).toEqual({ center: 'Letterhead' })
+      expect(editor.state.doc.attrs[PAGE_HEADER_ATTR]).toEqual({})
+    })
+  })
+
+  describe('Page numbers and tokens', () => {
+    it('should apply the numbering style and start number', async () => {
+      createEditor({ pageNumberStyle: 'upper-roman', pageNumberStart: 14 }, TWO_PAGE_CONTENT)
+      await waitForPagination()
+
+      const lastFooter = editor.view.dom.querySelector(`.${LAST_PAGE_FOOTER_CLASS}`) as HTMLElement
+      expect(slot(lastFooter, 'footer', 'right')?.textContent).toBe('XV of XV')
+    })
+
+    it('should pass displayed numbers to formatPageNumber', async () => {
+      createEditor({
+        pageNumberStart: 15,
+        formatPageNumber: (page, total) => `Exhibit page ${page}/${total}`,
+      })
+      await waitForPagination()
+
+      const lastFooter = editor.view.dom.querySelector(`.${LAST_PAGE_FOOTER_CLASS}`) as HTMLElement
+      expect(slot(lastFooter, 'footer', 'right')?.textContent).toBe('Exhibit page 15/15')
+    })
+
+    it('should show the page number at the configured position', async () => {
+      createEditor({ pageNumberPosition: { area: 'header', slot: 'center' } })
+      await waitForPagination()
+
+      const firstHeader = editor.view.dom.querySelector(`.${FIRST_PAGE_HEADER_CLASS}`) as HTMLElement
+      const lastFooter = editor.view.dom.querySelector(`.${LAST_PAGE_FOOTER_CLASS}`) as HTMLElement
+      expect(slot(firstHeader, 'header', 'center')?.textContent).toBe('1 of 1')
+      expect(slot(lastFooter, 'footer', 'right')?.textContent).toBe('')
+    })
+
+    it('should fill in template tokens per page', async () => {
+      createEditor({
+        documentTitle: 'Smith v. Jones',
+        formatDate: () => '2025-01-31',
+        header: { left: '{title}', right: '{date}' },
+        footer: { center: 'Page {page} of {pages}' },
+      }, TWO_PAGE_CONTENT)
+      await waitForPagination()
+
+      const firstHeader = editor.view.dom.querySelector(`.${FIRST_PAGE_HEADER_CLASS}`) as HTMLElement
+      const firstFooter = editor.view.dom.querySelector(`.${PAGE_FOOTER_CLASS}`) as HTMLElement
+      const lastFooter = editor.view.dom.querySelector(`.${LAST_PAGE_FOOTER_CLASS}`) as HTMLElement
+      expect(slot(firstHeader, 'header', 'left')?.textContent).toBe('Smith v. Jones')
+      expect(slot(firstHeader, 'header', 'right')?.textContent).toBe('2025-01-31')
+      expect(slot(firstFooter, 'footer', 'center')?.textContent).toBe('Page 1 of 2')
+      expect(slot(lastFooter, 'footer', 'center')?.textContent).toBe('Page 2 of 2')
+    })
+
+    it('should read the date once per layout pass', async () => {
+      let today = '2025-01-31'
+      const formatDate = vi.fn(() => today)
+      createEditor({ formatDate, header: { right: '{date}' } })
+      await waitForPagination()
+      const calls = formatDate.mock.calls.length
+
+      editor.commands.setTextSelection(1)
+      editor.commands.setTextSelection(3)
+      expect(formatDate).toHaveBeenCalledTimes(calls)
+
+      // A new day shows up with the next pass, without a document change
+      today = '2025-02-01'
+      await waitForPagination()
+      const firstHeader = editor.view.dom.querySelector(`.${FIRST_PAGE_HEADER_CLASS}`) as HTMLElement
+      expect(slot(firstHeader, 'header', 'right')?.textContent).toBe('2025-02-01')
+    })
+
+    it('should edit the raw template, not the rendered text', async () => {
+      createEditor({ footer: { center: 'Page {page}' } })
+      await waitForPagination()
+
+      const lastFooter = editor.view.dom.querySelector(`.${LAST_PAGE_FOOTER_CLASS}`) as HTMLElement
+      const center = slot(lastFooter, 'footer', 'center') as HTMLElement
+      expect(center.textContent).toBe('Page 1')
+      center.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }))
+      expect(center.textContent).toBe('Page {page}')
+    })
+  })
+
+  describe('In-place editing', () => {
+    it('should edit a slot on double-click and save on Enter', async () => {
+      createEditor()
+      await waitForPagination()
+
+      const firstHeader = editor.view.dom.querySelector(`.${FIRST_PAGE_HEADER_CLASS}`) as HTMLElement
+      const left = slot(firstHeader, 'header', 'left') as HTMLElement
+      left.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }))
+
+      expect(left.classList.contains(HEADER_FOOTER_EDITING_CLASS)).toBe(true)
+      expect(left.contentEditable).toBe('true')
+
+      left.innerHTML = '<b>Firm</b> name'
+      left.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }))
+
+      expect(editor.state.doc.attrs[PAGE_HEADER_ATTR]).toEqual({ left: '<b>Firm</b> name' })
+    })
+
+    it('should discard changes on Escape', async () => {
+      createEditor({ header: { left: 'Original' } })
+      await waitForPagination()
+
+      const firstHeader = editor.view.dom.querySelector(`.${FIRST_PAGE_HEADER_CLASS}`) as HTMLElement
+      const left = slot(firstHeader, 'header', 'left') as HTMLElement
+      left.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }))
+      left.innerHTML = 'Changed'
+      left.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }))
+
+      expect(editor.state.doc.attrs[PAGE_HEADER_ATTR]).toEqual({ left: 'Original' })
+      expect(left.textContent).toBe('Original')
+    })
+
+    it('should not edit when disabled', async () => {
+      createEditor({ editableHeaderFooter: false })
+      await waitForPagination()
+
+      const firstHeader = editor.view.dom.querySelector(`.${FIRST_PAGE_HEADER_CLASS}`) as HTMLElement
+      const left = slot(firstHeader, 'header', 'left') as HTMLElement
+      left.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }))
+
+      expect(left.classList.contains(HEADER_FOOTER_EDITING_CLASS)).toBe(false)
+    })
+  })
+})
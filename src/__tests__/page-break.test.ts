@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { Editor } from '@tiptap/core'
 import StarterKit from '@tiptap/starter-kit'
-import { PageBreak } from '@/extensions/page-break'
+import { PageBreak, type PageBreakType } from '@/extensions/page-break'
 
 type PageBreakExtensionShape = {
   name: string
@@ -99,6 +99,64 @@ describe('PageBreak Extension', () => {
     })
   })
 
+  describe('Break Types', () => {
+    const getBreakType = (target: Editor = editor) =>
+      target.getJSON().content?.find(node => node.type === 'pageBreak')?.attrs?.breakType
+
+    it('should default to a next page break', () => {
+      editor.commands.setPageBreak()
+      expect(getBreakType()).toBe('page')
+      expect(editor.getHTML()).not.toContain('data-break-type')
+    })
+
+    it('should insert odd page, even page and column breaks', () => {
+      editor.commands.setOddPageBreak()
+      expect(getBreakType()).toBe('oddPage')
+      expect(editor.getHTML()).toContain('data-break-type="oddPage"')
+      expect(editor.getHTML()).toContain('Page Break (Odd Page)')
+
+      editor.commands.clearContent()
+      editor.commands.setEvenPageBreak()
+      expect(getBreakType()).toBe('evenPage')
+
+      editor.commands.clearContent()
+      editor.commands.setColumnBreak()
+      expect(getBreakType()).toBe('column')
+      expect(editor.getHTML()).toContain('data-page-break-label="Column Break"')
+    })
+
+    it('should reject unknown break types', () => {
+      expect(editor.commands.setPageBreak('section' as PageBreakType)).toBe(false)
+    })
+
+    it('should change the type of the selected break', () => {
+      expect(editor.commands.setPageBreakType('oddPage')).toBe(false)
+
+      editor.commands.setPageBreak()
+      let breakPos = -1
+      editor.state.doc.forEach((node, offset) => {
+        if (node.type.name === 'pageBreak') breakPos = offset
+      })
+      editor.commands.setNodeSelection(breakPos)
+      expect(editor.commands.setPageBreakType('evenPage')).toBe(true)
+      expect(getBreakType()).toBe('evenPage')
+    })
+
+    it('should round-trip through HTML', () => {
+      editor.commands.setPageBreak('evenPage')
+      const editor2 = new Editor({ extensions: [StarterKit, PageBreak], content: editor.getHTML() })
+      expect(getBreakType(editor2)).toBe('evenPage')
+      editor2.destroy()
+
+      const editor3 = new Editor({
+        extensions: [StarterKit, PageBreak],
+        content: '<div data-page-break="true" data-break-type="bogus"></div>',
+      })
+      expect(getBreakType(editor3)).toBe('page')
+      editor3.destroy()
+    })
+  })
+
   describe('HTML Parsing', () => {
     it('should parse div with data-page-break attribute', () => {
       const editor2 = new Editor({
@@ -149,6 +207,113 @@ describe('PageBreak Extension', () => {
     })
   })
 
+  describe('Imported Break Styles', () => {
+    const createEditor = (content: string) => new Editor({ extensions: [StarterKit, PageBreak], content })
+
+    it('should parse page-break-before on paragraphs and headings', () => {
+      const editor2 = createEditor(
+        '<p>Intro</p><h2 style="page-break-before: always">Exhibit A</h2><p style="break-before:page">Schedule</p>'
+      )
+      const [intro, heading, schedule] = editor2.getJSON().content ?? []
+      expect(intro.attrs?.pageBreakBefore).toBe(false)
+      expect(heading.attrs?.pageBreakBefore).toBe(true)
+      expect(schedule.attrs?.pageBreakBefore).toBe(true)
+      editor2.destroy()
+    })
+
+    it('should parse keep-with-next from page-break-after: avoid', () => {
+      const editor2 = createEditor('<h1 style="page-break-after:avoid">Title</h1><p style="page-break-after: auto">Body</p>')
+      const [title, body] = editor2.getJSON().content ?? []
+      expect(title.attrs?.keepWithNext).toBe(true)
+      expect(body.attrs?.keepWithNext).toBe(false)
+      editor2.destroy()
+    })
+
+    it('should render the attributes back out', () => {
+      const editor2 = createEditor('<p style="page-break-before:always">A</p><h2 style="break-after: avoid">B</h2>')
+      const html = editor2.getHTML()
+      expect(html).toContain('<p style="page-break-before: always; break-before: page;">A</p>')
+      expect(html).toContain('style="page-break-after: avoid; break-after: avoid;"')
+      editor2.destroy()
+    })
+
+    it('should turn a Word page break line between paragraphs into a page break', () => {
+      const editor2 = createEditor(
+        '<p>Before</p><span><br clear="all" style="mso-special-character:line-break;page-break-before:always"></span><p>After</p>'
+      )
+      expect(editor2.getJSON().content?.map(node => node.type)).toEqual(['paragraph', 'pageBreak', 'paragraph'])
+      editor2.destroy()
+    })
+
+    it('should break before a paragraph starting with a page break line', () => {
+      const editor2 = createEditor(
+        '<p>Before</p><p><b><br clear="all" style="page-break-before:always"></b>After</p>'
+      )
+      const [, after] = editor2.getJSON().content ?? []
+      expect(after.attrs?.pageBreakBefore).toBe(true)
+      expect(after.content?.map(node => node.type)).toEqual(['text'])
+      editor2.destroy()
+    })
+
+    it('should keep line breaks inside a paragraph', () => {
+      const editor2 = createEditor('<p>Line<br>Next<br style="page-break-before:always">Last</p>')
+      const [paragraph] = editor2.getJSON().content ?? []
+      expect(paragraph.attrs?.pageBreakBefore).toBe(false)
+      expect(paragraph.content?.map(node => node.type)).toEqual(['text', 'hardBreak', 'text', 'hardBreak', 'text'])
+      editor2.destroy()
+    })
+  })
+
+  describe('Keep With Next and Keep Together', () => {
+    it('should parse and render keep-together', () => {
+      const editor2 = new Editor({
+        extensions: [StarterKit, PageBreak],
+        content: '<blockquote style="page-break-inside: avoid"><p>Quote</p></blockquote><p style="break-inside:auto">Body</p>',
+      })
+      const [quote, body] = editor2.getJSON().content ?? []
+      expect(quote.attrs?.keepTogether).toBe(true)
+      expect(body.attrs?.keepTogether).toBe(false)
+      expect(editor2.getHTML()).toContain('<blockquote style="page-break-inside: avoid; break-inside: avoid;">')
+      editor2.destroy()
+    })
+
+    it('should toggle keepWithNext on the selected blocks', () => {
+      editor.commands.setContent('<h2>Title</h2><p>Body</p>')
+      editor.commands.selectAll()
+
+      expect(editor.commands.toggleKeepWithNext()).toBe(true)
+      expect(editor.getJSON().content?.map(node => node.attrs?.keepWithNext)).toEqual([true, true])
+
+      expect(editor.commands.toggleKeepWithNext()).toBe(true)
+      expect(editor.getJSON().content?.map(node => node.attrs?.keepWithNext)).toEqual([false, false])
+    })
+
+    it('should turn keepTogether on unless every selected block has it', () => {
+      editor.commands.setContent('<p style="page-break-inside: avoid">A</p><ul><li><p>B</p></li></ul>')
+      editor.commands.selectAll()
+
+      editor.commands.toggleKeepTogether()
+      const [paragraph, list] = editor.getJSON().content ?? []
+      expect(paragraph.attrs?.keepTogether).toBe(true)
+      expect(list.attrs?.keepTogether).toBe(true)
+      // Only top-level blocks are marked
+      let nestedKeepTogether: unknown
+      editor.state.doc.descendants(node => {
+        if (node.type.name === 'paragraph' && node.textContent === 'B') nestedKeepTogether = node.attrs.keepTogether
+      })
+      expect(nestedKeepTogether).toBe(false)
+    })
+
+    it('should not toggle blocks of other types', () => {
+      editor.commands.setContent('<p>A</p>')
+      editor.commands.setTextSelection(editor.state.doc.content.size)
+      editor.commands.setPageBreak()
+      editor.commands.setNodeSelection(3)
+
+      expect(editor.commands.toggleKeepTogether()).toBe(false)
+    })
+  })
+
   describe('HTML Rendering', () => {
     it('should render page break as div with correct structure', () => {
       editor.commands.setPageBreak()
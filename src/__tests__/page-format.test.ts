@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import {
   PAGE_FORMATS,
   PageFormatName,
@@ -13,8 +13,32 @@ import {
   getEffectiveDimensions,
   calculatePageCount,
   getPageBreakPositions,
+  registerPageFormat,
+  unregisterPageFormat,
+  getPageFormats,
+  normalizePageFormat,
+  lengthToPixels,
+  mmToPixels,
+  getPageSizeDimensions,
+  parseLength,
+  toPixels,
+  convertLength,
+  getMarginPixels,
+  getPageLayoutDimensions,
+  getPageMargins,
+  isMirroredPage,
+  getPageGrid,
+  getPageGridCell,
+  supportsPageRows,
 } from '@/extensions/page-format'
 
+const PLEADING = {
+  name: 'Pleading',
+  dimensions: { width: 816, height: 1056 },
+  defaultMargins: { top: 96, right: 48, bottom: 96, left: 144 },
+  description: 'Pleading paper (8.5 × 11 inches)',
+}
+
 describe('page-format', () => {
   describe('Unit Conversions', () => {
     it('should convert inches to pixels at 96 DPI', () => {
@@ -40,14 +64,134 @@ describe('page-format', () => {
       expect(pixelsToCm(96)).toBeCloseTo(2.54, 1)
       expect(pixelsToCm(794)).toBeCloseTo(21, 0)
     })
+
+    it('should convert lengths in any unit to pixels', () => {
+      expect(lengthToPixels(612.5)).toBe(612.5)
+      expect(lengthToPixels(210, 'mm')).toBeCloseTo(793.7, 1)
+      expect(lengthToPixels(29.7, 'cm')).toBeCloseTo(1122.52, 2)
+      expect(lengthToPixels(8.5, 'in')).toBe(816)
+      expect(lengthToPixels(612, 'pt')).toBe(816)
+    })
+  })
+
+  describe('Lengths', () => {
+    it('should parse lengths with units', () => {
+      expect(parseLength(96)).toEqual({ value: 96, unit: 'px' })
+      expect(parseLength('210mm')).toEqual({ value: 210, unit: 'mm' })
+      expect(parseLength('0.5in')).toEqual({ value: 0.5, unit: 'in' })
+      expect(parseLength('12ft')).toBeNull()
+      expect(parseLength('-1cm')).toBeNull()
+    })
+
+    it('should convert lengths without rounding', () => {
+      expect(toPixels('1in')).toBe(96)
+      expect(toPixels('72pt')).toBe(96)
+      expect(toPixels('25.4mm')).toBeCloseTo(96, 10)
+      expect(convertLength(96, 'in')).toBe(1)
+      expect(convertLength('2.54cm', 'mm')).toBeCloseTo(25.4, 10)
+    })
+
+    it('should honor the DPI', () => {
+      expect(toPixels('1in', 72)).toBe(72)
+      expect(mmToPixels(25.4, 300)).toBeCloseTo(300, 10)
+      // Plain numbers are CSS pixels (1/96 in)
+      expect(toPixels(96, 72)).toBe(72)
+    })
+
+    it('should keep authored margins until layout', () => {
+      const config = createPageConfig({ width: '210mm', height: '297mm' }, 'portrait', { top: '2cm', left: '1in' })
+      expect(config.margins.top).toBe('2cm')
+
+      const layout = getPageLayoutDimensions(config)
+      expect(layout.page.width).toBeCloseTo(793.7, 1)
+      expect(layout.margins.top).toBeCloseTo(75.59, 2)
+      expect(getMarginPixels(config.margins).left).toBe(96)
+    })
+  })
+
+  describe('Mirror margins and gutter', () => {
+    it('should add the gutter to the left margin', () => {
+      const layout = getPageLayoutDimensions(createPageConfig('Letter', 'portrait', {}, { gutter: '0.5in' }))
+      expect(layout.margins.left).toBe(144)
+      expect(layout.content.width).toBe(816 - 144 - 96)
+      expect(getPageMargins(layout, 2).left).toBe(144)
+    })
+
+    it('should swap the side margins on even pages', () => {
+      const config = createPageConfig('Letter', 'portrait', { left: 120, right: 72 }, { mirrorMargins: true, gutter: 24 })
+      const layout = getPageLayoutDimensions(config)
+      expect(getPageMargins(layout, 1)).toMatchObject({ left: 144, right: 72 })
+      expect(getPageMargins(layout, 2)).toMatchObject({ left: 72, right: 144 })
+      expect(isMirroredPage(layout, 2)).toBe(true)
+      expect(isMirroredPage(layout, 3)).toBe(false)
+    })
+
+    it('should ignore invalid gutters', () => {
+      expect(createPageConfig('Letter', 'portrait', {}, { gutter: -5 }).gutter).toBeUndefined()
+      expect(createPageConfig('Letter', 'portrait', {}, { gutter: 0 }).gutter).toBeUndefined()
+    })
+  })
+
+  describe('Page grid', () => {
+    const letter = getPageLayoutDimensions(createPageConfig('Letter', 'portrait'))
+
+    // jsdom has no CSS.supports: pretend column-wrap is supported
+    beforeEach(() => {
+      vi.stubGlobal('CSS', { supports: (property: string) => property === 'column-wrap' })
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should put page 1 alone on the right of the first spread', () => {
+      const grid = getPageGrid('spread', 3, [letter, letter, letter])
+      expect(grid).toEqual({ columns: 2, offset: 1 })
+      expect(getPageGridCell(grid!, 0)).toEqual({ row: 0, column: 1 })
+      expect(getPageGridCell(grid!, 1)).toEqual({ row: 1, column: 0 })
+      expect(getPageGridCell(grid!, 2)).toEqual({ row: 1, column: 1 })
+    })
+
+    it('should fill grid rows from the left', () => {
+      const grid = getPageGrid('grid', 3, [letter])
+      expect(grid).toEqual({ columns: 3, offset: 0 })
+      expect(getPageGridCell(grid!, 4)).toEqual({ row: 1, column: 1 })
+    })
+
+    it('should keep one column for single pages and mixed page sizes', () => {
+      const landscape = getPageLayoutDimensions(createPageConfig('Letter', 'landscape'))
+      expect(getPageGrid('single', 3, [letter])).toBeNull()
+      expect(getPageGrid('spread', 3, [letter, landscape])).toBeNull()
+    })
+
+    it('should keep one column when columns can\'t wrap into rows', () => {
+      vi.stubGlobal('CSS', { supports: () => false })
+      expect(supportsPageRows()).toBe(false)
+      expect(getPageGrid('spread', 3, [letter])).toBeNull()
+      expect(getPageGrid('grid', 3, [letter])).toBeNull()
+    })
+  })
+
+  describe('getPageSizeDimensions', () => {
+    it('should convert custom sizes', () => {
+      expect(getPageSizeDimensions({ width: '148mm', height: '210mm' })).toEqual({ width: mmToPixels(148), height: mmToPixels(210) })
+      expect(getPageSizeDimensions({ width: 600, height: 800 })).toEqual({ width: 600, height: 800 })
+    })
+
+    it('should reject invalid sizes', () => {
+      expect(getPageSizeDimensions({ width: 0, height: 800 })).toBeNull()
+      expect(getPageSizeDimensions({ width: '-5in', height: '10in' })).toBeNull()
+      expect(getPageSizeDimensions({ width: Infinity, height: 800 })).toBeNull()
+      expect(getPageSizeDimensions({ width: '5ft' as never, height: '8in' })).toBeNull()
+    })
   })
 
   describe('PAGE_FORMATS', () => {
     it('should define A4 format correctly', () => {
       const a4 = PAGE_FORMATS.A4
       expect(a4.name).toBe('A4')
-      expect(a4.dimensions.width).toBe(794)
-      expect(a4.dimensions.height).toBe(1123)
+      expect(a4.dimensions.width).toBe(mmToPixels(210))
+      expect(a4.dimensions.height).toBe(mmToPixels(297))
       expect(a4.description).toContain('210 × 297 mm')
     })
 
@@ -78,6 +222,39 @@ describe('page-format', () => {
       // 2.54cm ≈ 96px at 96 DPI
       expect(PAGE_FORMATS.A4.defaultMargins.top).toBe(96)
     })
+
+    it('should define the additional ISO and JIS formats', () => {
+      expect(PAGE_FORMATS.A3.dimensions).toEqual({ width: mmToPixels(297), height: mmToPixels(420) })
+      expect(PAGE_FORMATS.A5.dimensions).toEqual({ width: mmToPixels(148), height: mmToPixels(210) })
+      expect(PAGE_FORMATS.B5.dimensions).toEqual({ width: mmToPixels(176), height: mmToPixels(250) })
+      expect(PAGE_FORMATS['JIS-B5'].dimensions).toEqual({ width: mmToPixels(182), height: mmToPixels(257) })
+      // 182mm at 96 DPI
+      expect(cmToPixels(18.2)).toBeCloseTo(PAGE_FORMATS['JIS-B5'].dimensions.width, 6)
+    })
+
+    it('should define the additional US formats', () => {
+      expect(PAGE_FORMATS.Executive.dimensions).toEqual({ width: 696, height: 1008 })
+      expect(PAGE_FORMATS.Tabloid.dimensions).toEqual({ width: 1056, height: 1632 })
+      expect(PAGE_FORMATS.Statement.dimensions).toEqual({ width: 528, height: 816 })
+    })
+
+    it('should use regional default margins', () => {
+      expect(PAGE_FORMATS.A5.defaultMargins.left).toBe(cmToPixels(2))
+      expect(PAGE_FORMATS['JIS-B5'].defaultMargins).toEqual({
+        top: cmToPixels(2.5),
+        right: cmToPixels(2),
+        bottom: cmToPixels(2.5),
+        left: cmToPixels(2),
+      })
+      expect(PAGE_FORMATS.Executive.defaultMargins.top).toBe(96)
+      expect(PAGE_FORMATS.Statement.defaultMargins.top).toBe(72)
+    })
+
+    it('should key every format by its name', () => {
+      Object.entries(PAGE_FORMATS).forEach(([key, format]) => {
+        expect(format.name).toBe(key)
+      })
+    })
   })
 
   describe('getPageDimensions', () => {
@@ -115,9 +292,57 @@ describe('page-format', () => {
     })
   })
 
+  describe('Page Format Registry', () => {
+    afterEach(() => {
+      unregisterPageFormat('Pleading')
+    })
+
+    it('should register a custom format', () => {
+      registerPageFormat(PLEADING)
+      const name = 'Pleading' as PageFormatName
+
+      expect(PAGE_FORMATS[name].description).toBe('Pleading paper (8.5 × 11 inches)')
+      expect(getPageFormats().map(f => f.name)).toContain('Pleading')
+      expect(getDefaultMargins(name).left).toBe(144)
+      expect(getPageDimensions(name, 'landscape')).toEqual({ width: 1056, height: 816 })
+      expect(createPageConfig(name).margins.right).toBe(48)
+      expect(normalizePageFormat('Pleading')).toBe('Pleading')
+    })
+
+    it('should list standard formats first', () => {
+      registerPageFormat(PLEADING)
+      const names = getPageFormats().map(f => f.name)
+      expect(names[0]).toBe('A3')
+      expect(names[names.length - 1]).toBe('Pleading')
+    })
+
+    it('should default the description to the name', () => {
+      const { description, ...rest } = PLEADING
+      expect(description).toBeDefined()
+      expect(registerPageFormat(rest).description).toBe('Pleading')
+    })
+
+    it('should unregister custom formats only', () => {
+      registerPageFormat(PLEADING)
+      expect(unregisterPageFormat('Pleading')).toBe(true)
+      expect(normalizePageFormat('Pleading')).toBeNull()
+      expect(unregisterPageFormat('Letter')).toBe(false)
+    })
+
+    it('should reject invalid formats', () => {
+      expect(() => registerPageFormat({ ...PLEADING, name: 'Letter' })).toThrow(/standard format/)
+      expect(() => registerPageFormat({ ...PLEADING, name: ' ' })).toThrow(/name/)
+      expect(() => registerPageFormat({ ...PLEADING, dimensions: { width: 0, height: 100 } })).toThrow(/width and height/)
+      expect(() => registerPageFormat({
+        ...PLEADING,
+        defaultMargins: { top: 96, right: 400, bottom: 96, left: 420 },
+      })).toThrow(/must fit/)
+    })
+  })
+
   describe('getDefaultMargins', () => {
     it('should return margins for each format', () => {
-      const formats: PageFormatName[] = ['A4', 'Letter', 'Legal']
+      const formats = Object.keys(PAGE_FORMATS) as PageFormatName[]
       formats.forEach((format) => {
         const margins = getDefaultMargins(format)
         expect(margins).toHaveProperty('top')
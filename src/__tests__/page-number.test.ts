@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import {
+  toRoman,
+  toAlpha,
+  formatPageNumberStyle,
+  replaceHeaderFooterTokens,
+} from '@/extensions/page-number'
+
+describe('page-number', () => {
+  describe('Numbering Styles', () => {
+    it('should convert numbers to roman numerals', () => {
+      expect(toRoman(1)).toBe('i')
+      expect(toRoman(4)).toBe('iv')
+      expect(toRoman(14)).toBe('xiv')
+      expect(toRoman(1999)).toBe('mcmxcix')
+    })
+
+    it('should fall back to digits outside the roman range', () => {
+      expect(toRoman(0)).toBe('0')
+      expect(toRoman(4000)).toBe('4000')
+    })
+
+    it('should convert numbers to letters', () => {
+      expect(toAlpha(1)).toBe('a')
+      expect(toAlpha(26)).toBe('z')
+      expect(toAlpha(27)).toBe('aa')
+      expect(toAlpha(52)).toBe('az')
+      expect(toAlpha(0)).toBe('0')
+    })
+
+    it('should format every style', () => {
+      expect(formatPageNumberStyle(9, 'arabic')).toBe('9')
+      expect(formatPageNumberStyle(9, 'lower-roman')).toBe('ix')
+      expect(formatPageNumberStyle(9, 'upper-roman')).toBe('IX')
+      expect(formatPageNumberStyle(9, 'lower-alpha')).toBe('i')
+      expect(formatPageNumberStyle(9, 'upper-alpha')).toBe('I')
+    })
+  })
+
+  describe('Template Tokens', () => {
+    const values = { page: '3', pages: '10', date: '1/2/2025', title: 'Smith <v> Jones' }
+
+    it('should replace tokens', () => {
+      expect(replaceHeaderFooterTokens('Page {page} of {pages}', values)).toBe('Page 3 of 10')
+      expect(replaceHeaderFooterTokens('<b>{date}</b>', values)).toBe('<b>1/2/2025</b>')
+    })
+
+    it('should escape token values', () => {
+      expect(replaceHeaderFooterTokens('{title}', values)).toBe('Smith &lt;v&gt; Jones')
+    })
+
+    it('should leave unknown tokens untouched', () => {
+      expect(replaceHeaderFooterTokens('{author} {page}', values)).toBe('{author} 3')
+    })
+  })
+})
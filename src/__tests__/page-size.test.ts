@@ -13,6 +13,7 @@ import {
   LAST_PAGE_FOOTER_CONTENT_CLASS,
   createPageConfig,
   getPageLayoutDimensions,
+  mmToPixels,
   type PageFormatName,
 } from '@/extensions'
 
@@ -244,8 +245,8 @@ describe('Page Size Ratios', () => {
   })
 
   describe('A4 Format (210 x 297 mm)', () => {
-    const A4_WIDTH = 794   // 210mm at 96 DPI
-    const A4_HEIGHT = 1123 // 297mm at 96 DPI
+    const A4_WIDTH = mmToPixels(210)  // ≈ 793.7px at 96 DPI
+    const A4_HEIGHT = mmToPixels(297) // ≈ 1122.5px at 96 DPI
 
     it('page wrapper should have correct width for A4 format', async () => {
       createEditor('A4')
@@ -393,7 +394,7 @@ describe('Page Size Ratios', () => {
       expect(firstHeader).toBeTruthy()
       
       // Check the style attribute directly (computed style depends on container)
-      expect(firstHeader.style.width).toBe('794px')
+      expect(firstHeader.style.width).toBe(`${mmToPixels(210)}px`)
     })
 
     it('should maintain correct layout dimensions after format switch', async () => {
@@ -429,9 +430,9 @@ describe('Page Measurement Utilities', () => {
     expect(PAGE_FORMATS.Legal.dimensions.width).toBe(816)
     expect(PAGE_FORMATS.Legal.dimensions.height).toBe(1344)
     
-    // A4: 210 x 297 mm = ~794 x 1123 pixels at 96 DPI
-    expect(PAGE_FORMATS.A4.dimensions.width).toBe(794)
-    expect(PAGE_FORMATS.A4.dimensions.height).toBe(1123)
+    // A4: 210 x 297 mm = ~793.7 x 1122.5 pixels at 96 DPI
+    expect(PAGE_FORMATS.A4.dimensions.width).toBeCloseTo(793.7, 1)
+    expect(PAGE_FORMATS.A4.dimensions.height).toBeCloseTo(1122.52, 2)
   })
 
   it('should calculate correct aspect ratios from PAGE_FORMATS', () => {
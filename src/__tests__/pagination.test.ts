@@ -1,9 +1,47 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { Editor } from '@tiptap/core'
+import { Editor, Node } from '@tiptap/core'
 import StarterKit from '@tiptap/starter-kit'
-import { Pagination, paginationPluginKey } from '@/extensions/pagination'
+import {
+  Pagination,
+  paginationPluginKey,
+  type PaginationOptions,
+  BLOCK_PUSH_SPACER_CLASS,
+  TABLE_ROW_SPACER_CLASS,
+  REPEATED_HEADER_ROW_CLASS,
+  PAGE_FORMAT_ATTR,
+  PAGE_ORIENTATION_ATTR,
+  PAGE_MARGINS_ATTR,
+  PAGE_MIRROR_MARGINS_ATTR,
+  PAGE_GUTTER_ATTR,
+  PAGE_HEADER_CLASS,
+  PAGE_FOOTER_CLASS,
+  VIEW_MODE_ATTR,
+} from '@/extensions/pagination'
 import { PageBreak } from '@/extensions/page-break'
-import { createPageConfig, getEffectiveDimensions, getPageLayoutDimensions } from '@/extensions/page-format'
+import {
+  createPageConfig,
+  getEffectiveDimensions,
+  getPageLayoutDimensions,
+  mmToPixels,
+  getPageMargins,
+  registerPageFormat,
+  unregisterPageFormat,
+  type PageFormatName,
+} from '@/extensions/page-format'
+
+function mockRect(el: Element, top: number, bottom: number) {
+  ;(el as HTMLElement).getBoundingClientRect = () => ({
+    top,
+    bottom,
+    left: 0,
+    right: 0,
+    width: 0,
+    height: bottom - top,
+    x: 0,
+    y: top,
+    toJSON: () => ({}),
+  }) as unknown as DOMRect
+}
 
 describe('Pagination Extension', () => {
   let editor: Editor
@@ -91,12 +129,114 @@ describe('Pagination Extension', () => {
     })
 
     it('should work with all preset formats', () => {
-      const formats = ['A4', 'Letter', 'Legal'] as const
+      const formats = ['A3', 'A4', 'A5', 'B5', 'JIS-B5', 'Letter', 'Legal', 'Executive', 'Tabloid', 'Statement'] as const
       formats.forEach((format) => {
         editor.commands.setPageFormat(format)
         expect(editor.storage.pagination.pageConfig.format).toBe(format)
       })
     })
+
+    it('should reject formats the current margins do not fit on', () => {
+      editor.commands.setMargins({ left: '2.75in', right: '2.75in' })
+      expect(editor.commands.setPageFormat('Statement')).toBe(false)
+      expect(editor.storage.pagination.pageConfig.format).toBe('Letter')
+      expect(editor.can().setPageFormat('Legal')).toBe(true)
+    })
+  })
+
+  describe('Registered Page Formats', () => {
+    afterEach(() => {
+      unregisterPageFormat('Pleading')
+    })
+
+    it('should accept registered formats in setPageFormat', () => {
+      registerPageFormat({
+        name: 'Pleading',
+        dimensions: { width: 816, height: 1056 },
+        defaultMargins: { top: 96, right: 48, bottom: 96, left: 144 },
+      })
+      expect(editor.commands.setPageFormat('Pleading' as PageFormatName)).toBe(true)
+      expect(editor.storage.pagination.pageConfig.format).toBe('Pleading')
+      expect(editor.getJSON().attrs?.[PAGE_FORMAT_ATTR]).toBe('Pleading')
+    })
+  })
+
+  describe('setPageSize Command', () => {
+    it('should switch to custom dimensions', () => {
+      expect(editor.commands.setPageSize({ width: '8in', height: '10in' })).toBe(true)
+      expect(editor.storage.pagination.pageConfig.format).toEqual({ width: '8in', height: '10in' })
+      expect(editor.getJSON().attrs?.[PAGE_FORMAT_ATTR]).toEqual({ width: '8in', height: '10in' })
+      expect(getEffectiveDimensions(editor.storage.pagination.pageConfig)).toEqual({ width: 768, height: 960 })
+    })
+
+    it('should keep the orientation', () => {
+      editor.commands.setOrientation('landscape')
+      editor.commands.setPageSize({ width: '148mm', height: '210mm' })
+      expect(getEffectiveDimensions(editor.storage.pagination.pageConfig)).toEqual({ width: mmToPixels(210), height: mmToPixels(148) })
+    })
+
+    it('should reject invalid sizes', () => {
+      expect(editor.commands.setPageSize({ width: 0, height: 800 })).toBe(false)
+      expect(editor.commands.setPageSize({ width: NaN, height: 800 })).toBe(false)
+      expect(editor.commands.setPageSize({ width: '8ft' as never, height: '10in' })).toBe(false)
+      expect(editor.storage.pagination.pageConfig.format).toBe('Letter')
+    })
+
+    it('should reject sizes the margins do not fit on', () => {
+      // 1 inch margins on each side leave no room on a 2 inch wide page
+      expect(editor.commands.setPageSize({ width: '2in', height: '11in' })).toBe(false)
+      expect(editor.can().setPageSize({ width: '3in', height: '11in' })).toBe(true)
+    })
+
+    it('should re-run pagination with the new size', () => {
+      vi.useFakeTimers()
+      const layouts = vi.fn()
+      const editor2 = new Editor({
+        element: document.body.appendChild(document.createElement('div')),
+        extensions: [StarterKit, PageBreak, Pagination.configure({ onPageLayoutsChange: layouts })],
+        content: '<p>Test</p>',
+      })
+      vi.runOnlyPendingTimers()
+
+      editor2.commands.setPageSize({ width: 600, height: 800 })
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      expect(editor2.storage.pagination.pageLayouts[0].page).toEqual({ width: 600, height: 800 })
+      expect(layouts).toHaveBeenLastCalledWith([expect.objectContaining({ page: { width: 600, height: 800 } })])
+      editor2.destroy()
+    })
+
+    it('should be undoable', () => {
+      editor.commands.setPageSize({ width: 600, height: 800 })
+      editor.commands.undo()
+      expect(editor.storage.pagination.pageConfig.format).toBe('Letter')
+    })
+  })
+
+  describe('Lengths and DPI', () => {
+    it('should accept margins in any unit', () => {
+      editor.commands.setMargins({ top: '2cm', left: '0.5in' })
+      expect(editor.storage.pagination.pageConfig.margins).toMatchObject({ top: '2cm', left: '0.5in' })
+      expect(editor.commands.setMargins({ top: '2ft' as never })).toBe(true)
+      expect(editor.storage.pagination.pageConfig.margins.top).toBe('2cm')
+    })
+
+    it('should lay out pages at the configured DPI', () => {
+      vi.useFakeTimers()
+      const editor2 = new Editor({
+        element: document.body.appendChild(document.createElement('div')),
+        extensions: [StarterKit, PageBreak, Pagination.configure({ pageFormat: 'Letter', dpi: 72 })],
+        content: '<p>Test</p>',
+      })
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      const layout = editor2.storage.pagination.pageLayouts[0]
+      expect(layout.page).toEqual({ width: 612, height: 792 })
+      expect(layout.margins.top).toBe(72)
+      editor2.destroy()
+    })
   })
 
   describe('setOrientation Command', () => {
@@ -117,6 +257,12 @@ describe('Pagination Extension', () => {
       editor.commands.setOrientation('portrait')
       expect(editor.storage.pagination.pageConfig.orientation).toBe('portrait')
     })
+
+    it('should reject an orientation the current margins do not fit in', () => {
+      editor.commands.setMargins({ top: '5in', bottom: '5in' })
+      expect(editor.commands.setOrientation('landscape')).toBe(false)
+      expect(editor.storage.pagination.pageConfig.orientation).toBe('portrait')
+    })
   })
 
   describe('setMargins Command', () => {
@@ -136,6 +282,76 @@ describe('Pagination Extension', () => {
       editor.commands.setMargins({ top: 50 })
       expect(editor.storage.pagination.pageConfig.margins.right).toBe(originalRight)
     })
+
+    it('should reject margins that do not fit on the page', () => {
+      expect(editor.commands.setMargins({ left: '150mm', right: '150mm' })).toBe(false)
+      expect(editor.commands.setMargins({ top: '5.5in', bottom: '5.5in' })).toBe(false)
+      expect(editor.storage.pagination.pageConfig.margins).toMatchObject({ top: 96, left: 96 })
+      expect(editor.can().setMargins({ left: '3in', right: '3in' })).toBe(true)
+    })
+  })
+
+  describe('Page Setup Persistence', () => {
+    it('should store the page setup in the document JSON', () => {
+      editor.commands.setPageFormat('A4')
+      editor.commands.setOrientation('landscape')
+      editor.commands.setMargins({ left: 48 })
+
+      const attrs = editor.getJSON().attrs
+      expect(attrs?.[PAGE_FORMAT_ATTR]).toBe('A4')
+      expect(attrs?.[PAGE_ORIENTATION_ATTR]).toBe('landscape')
+      expect(attrs?.[PAGE_MARGINS_ATTR]).toEqual({ top: 96, right: 96, bottom: 96, left: 48 })
+    })
+
+    it('should restore the page setup when loading saved JSON', () => {
+      editor.commands.setPageFormat('Legal')
+      editor.commands.setMargins({ top: 72 })
+      const json = editor.getJSON()
+
+      const editor2 = new Editor({
+        extensions: [StarterKit, PageBreak, Pagination.configure({ pageFormat: 'A4' })],
+        content: json,
+      })
+      expect(editor2.storage.pagination.pageConfig.format).toBe('Legal')
+      expect(editor2.storage.pagination.pageConfig.margins.top).toBe(72)
+      editor2.destroy()
+    })
+
+    it('should undo and redo page setup changes', () => {
+      editor.commands.setOrientation('landscape')
+      editor.commands.setMargins({ top: 50 })
+
+      editor.commands.undo()
+      expect(editor.storage.pagination.pageConfig.margins.top).toBe(96)
+      expect(editor.storage.pagination.pageConfig.orientation).toBe('landscape')
+
+      editor.commands.undo()
+      expect(editor.storage.pagination.pageConfig.orientation).toBe('portrait')
+
+      editor.commands.redo()
+      expect(editor.storage.pagination.pageConfig.orientation).toBe('landscape')
+    })
+
+    it('should keep margins when the format changes', () => {
+      editor.commands.setMargins({ left: 30 })
+      editor.commands.setPageFormat('A4')
+      expect(editor.storage.pagination.pageConfig.margins.left).toBe(30)
+    })
+
+    it('should reject unknown formats and fall back on invalid attributes', () => {
+      expect(editor.commands.setPageFormat('Folio' as never)).toBe(false)
+
+      const editor2 = new Editor({
+        extensions: [StarterKit, PageBreak, Pagination],
+        content: {
+          type: 'doc',
+          attrs: { [PAGE_FORMAT_ATTR]: 'Folio', [PAGE_MARGINS_ATTR]: { top: -5 } },
+          content: [{ type: 'paragraph' }],
+        },
+      })
+      expect(editor2.storage.pagination.pageConfig).toEqual(createPageConfig('Letter', 'portrait'))
+      editor2.destroy()
+    })
   })
 
   describe('goToPage Command', () => {
@@ -149,9 +365,10 @@ describe('Pagination Extension', () => {
       expect(result).toBe(true)
     })
 
-    it('should handle out of range pages gracefully', () => {
-      const result = editor.commands.goToPage(999)
-      expect(result).toBe(true)
+    it('should fail for pages that do not exist', () => {
+      expect(editor.commands.goToPage(999)).toBe(false)
+      expect(editor.commands.goToPage(0)).toBe(false)
+      expect(editor.commands.goToPage(1.5)).toBe(false)
     })
   })
 
@@ -182,6 +399,288 @@ describe('Pagination Extension', () => {
     })
   })
 
+  describe('Current Page', () => {
+    function createTwoPageEditor(options: Partial<PaginationOptions> = {}) {
+      const editor2 = new Editor({
+        element: document.body.appendChild(document.createElement('div')),
+        extensions: [StarterKit, PageBreak, Pagination.configure({ pageFormat: 'Letter', pageGap: 40, ...options })],
+        content: '<p>Intro</p><h2 style="page-break-before: always">Exhibit A</h2>',
+      })
+      const offsets: number[] = []
+      editor2.state.doc.forEach((_node, offset) => offsets.push(offset))
+      mockRect(editor2.view.dom, 0, 0)
+      mockRect(editor2.view.nodeDOM(offsets[0]) as HTMLElement, 96, 120)
+      mockRect(editor2.view.nodeDOM(offsets[1]) as HTMLElement, 120, 150)
+      return { editor2, offsets }
+    }
+
+    it('should track the page of the selection head', () => {
+      vi.useFakeTimers()
+      const onCurrentPageChange = vi.fn()
+      const { editor2, offsets } = createTwoPageEditor({ onCurrentPageChange })
+      vi.runOnlyPendingTimers()
+      expect(editor2.storage.pagination.currentPage).toBe(1)
+
+      editor2.commands.setTextSelection(offsets[1] + 1)
+      expect(editor2.storage.pagination.currentPage).toBe(2)
+      expect(onCurrentPageChange).toHaveBeenLastCalledWith(2)
+
+      editor2.commands.setTextSelection(1)
+      expect(editor2.storage.pagination.currentPage).toBe(1)
+      expect(onCurrentPageChange).toHaveBeenCalledTimes(2)
+      vi.useRealTimers()
+      editor2.destroy()
+    })
+
+    it('should track the page most visible in the viewport', () => {
+      vi.useFakeTimers()
+      const onVisiblePageChange = vi.fn()
+      const { editor2 } = createTwoPageEditor({ onVisiblePageChange })
+      vi.runOnlyPendingTimers()
+      expect(editor2.storage.pagination.pageCount).toBe(2)
+      expect(editor2.storage.pagination.visiblePage).toBe(1)
+
+      // Scrolled so that page 2 (top at 1056 + 40) fills the window
+      mockRect(editor2.view.dom, -1150, -1150)
+      window.dispatchEvent(new Event('scroll'))
+      vi.runOnlyPendingTimers()
+
+      expect(editor2.storage.pagination.visiblePage).toBe(2)
+      expect(onVisiblePageChange).toHaveBeenCalledWith(2)
+      vi.useRealTimers()
+      editor2.destroy()
+    })
+
+    it('should move the selection to the start of a page with goToPage', () => {
+      vi.useFakeTimers()
+      const { editor2, offsets } = createTwoPageEditor()
+      vi.runOnlyPendingTimers()
+      const scrollBy = vi.spyOn(window, 'scrollBy').mockImplementation(() => {})
+
+      expect(editor2.commands.goToPage(2, { behavior: 'auto' })).toBe(true)
+      expect(editor2.state.selection.from).toBe(offsets[1] + 1)
+      expect(editor2.storage.pagination.currentPage).toBe(2)
+      // Page 2 starts one page and gap below the editor top
+      expect(scrollBy).toHaveBeenCalledWith({ top: 1096, behavior: 'auto' })
+
+      expect(editor2.commands.goToPage(1)).toBe(true)
+      expect(editor2.state.selection.from).toBe(1)
+      scrollBy.mockRestore()
+      vi.useRealTimers()
+      editor2.destroy()
+    })
+
+    it('should scroll a custom container with goToPage', () => {
+      vi.useFakeTimers()
+      const container = document.createElement('div')
+      const scrollBy = vi.fn()
+      container.scrollBy = scrollBy
+      mockRect(container, 100, 600)
+      const { editor2 } = createTwoPageEditor({ scrollContainer: () => container })
+      vi.runOnlyPendingTimers()
+
+      editor2.commands.goToPage(2, { block: 'center' })
+      // Page 2 spans 1096..2152, centered in a viewport spanning 100..600
+      expect(scrollBy).toHaveBeenCalledWith({ top: 1274, behavior: 'smooth' })
+
+      const override = document.createElement('div')
+      override.scrollBy = vi.fn()
+      editor2.commands.goToPage(2, { scrollContainer: override, block: 'start' })
+      expect(override.scrollBy).toHaveBeenCalledWith({ top: 1096, behavior: 'smooth' })
+      vi.useRealTimers()
+      editor2.destroy()
+    })
+
+    it('should move the selection page by page', () => {
+      vi.useFakeTimers()
+      const { editor2, offsets } = createTwoPageEditor()
+      vi.runOnlyPendingTimers()
+      const scrollBy = vi.spyOn(window, 'scrollBy').mockImplementation(() => {})
+
+      expect(editor2.commands.previousPage()).toBe(false)
+      expect(editor2.commands.nextPage()).toBe(true)
+      expect(editor2.state.selection.from).toBe(offsets[1] + 1)
+      expect(editor2.commands.nextPage()).toBe(false)
+      expect(editor2.commands.previousPage()).toBe(true)
+      expect(editor2.state.selection.from).toBe(1)
+
+      expect(editor2.commands.lastPage()).toBe(true)
+      expect(editor2.storage.pagination.currentPage).toBe(2)
+      expect(editor2.commands.firstPage()).toBe(true)
+      expect(editor2.storage.pagination.currentPage).toBe(1)
+      scrollBy.mockRestore()
+      vi.useRealTimers()
+      editor2.destroy()
+    })
+
+    it('should go to the start of the current page before the previous one', () => {
+      vi.useFakeTimers()
+      const { editor2, offsets } = createTwoPageEditor()
+      vi.runOnlyPendingTimers()
+      const scrollBy = vi.spyOn(window, 'scrollBy').mockImplementation(() => {})
+
+      // Caret in the middle of page 2
+      editor2.commands.setTextSelection(offsets[1] + 4)
+      expect(editor2.commands.previousPage()).toBe(true)
+      expect(editor2.state.selection.from).toBe(offsets[1] + 1)
+      expect(editor2.storage.pagination.currentPage).toBe(2)
+      expect(editor2.commands.previousPage()).toBe(true)
+      expect(editor2.state.selection.from).toBe(1)
+
+      // Same on the first page
+      editor2.commands.setTextSelection(3)
+      expect(editor2.commands.previousPage()).toBe(true)
+      expect(editor2.state.selection.from).toBe(1)
+      expect(editor2.commands.previousPage()).toBe(false)
+      scrollBy.mockRestore()
+      vi.useRealTimers()
+      editor2.destroy()
+    })
+
+    it('should bind PageUp/PageDown only when enabled', () => {
+      vi.useFakeTimers()
+      const pressKey = (editor: Editor, key: string, ctrlKey = false) =>
+        editor.view.dom.dispatchEvent(new KeyboardEvent('keydown', { key, ctrlKey, bubbles: true, cancelable: true }))
+      const scrollBy = vi.spyOn(window, 'scrollBy').mockImplementation(() => {})
+
+      const { editor2: plain } = createTwoPageEditor()
+      vi.runOnlyPendingTimers()
+      pressKey(plain, 'PageDown')
+      expect(plain.storage.pagination.currentPage).toBe(1)
+      plain.destroy()
+
+      const { editor2, offsets } = createTwoPageEditor({ pageNavigationShortcuts: true })
+      vi.runOnlyPendingTimers()
+      pressKey(editor2, 'PageDown')
+      expect(editor2.state.selection.from).toBe(offsets[1] + 1)
+      pressKey(editor2, 'PageUp')
+      expect(editor2.state.selection.from).toBe(1)
+      pressKey(editor2, 'PageDown', true)
+      expect(editor2.storage.pagination.currentPage).toBe(2)
+      pressKey(editor2, 'PageUp', true)
+      expect(editor2.storage.pagination.currentPage).toBe(1)
+      expect(scrollBy).toHaveBeenCalledWith({ top: 1096, behavior: 'auto' })
+      scrollBy.mockRestore()
+      vi.useRealTimers()
+      editor2.destroy()
+    })
+  })
+
+  describe('View Mode', () => {
+    // jsdom has no CSS.supports: pretend column-wrap is supported
+    beforeEach(() => {
+      vi.stubGlobal('CSS', { supports: (property: string) => property === 'column-wrap' })
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    function createThreePageEditor(options: Partial<PaginationOptions> = {}) {
+      const editor2 = new Editor({
+        element: document.body.appendChild(document.createElement('div')),
+        extensions: [StarterKit, PageBreak, Pagination.configure({ pageFormat: 'Letter', pageGap: 40, ...options })],
+        content: '<p>One</p><p>Two</p><p>Three</p>',
+      })
+      const offsets: number[] = []
+      editor2.state.doc.forEach((_node, offset) => offsets.push(offset))
+      mockRect(editor2.view.dom, 0, 0)
+      mockRect(editor2.view.nodeDOM(offsets[0]) as HTMLElement, 96, 120)
+      mockRect(editor2.view.nodeDOM(offsets[1]) as HTMLElement, 1192, 1220)
+      mockRect(editor2.view.nodeDOM(offsets[2]) as HTMLElement, 2288, 2310)
+      return { editor2, offsets }
+    }
+
+    it('should flow the editor into one column per page', () => {
+      vi.useFakeTimers()
+      const { editor2 } = createThreePageEditor({ viewMode: 'spread' })
+      vi.runOnlyPendingTimers()
+      const dom = editor2.view.dom as HTMLElement
+
+      expect(editor2.storage.pagination.pageCount).toBe(3)
+      expect(dom.getAttribute(VIEW_MODE_ATTR)).toBe('spread')
+      expect(dom.style.getPropertyValue('--ctp-view-columns')).toBe('2')
+      expect(dom.style.getPropertyValue('--ctp-view-column-gap')).toBe('232px')
+      expect(dom.style.getPropertyValue('--ctp-view-column-height')).toBe('1096px')
+
+      expect(editor2.commands.setViewMode('grid', 4)).toBe(true)
+      expect(dom.getAttribute(VIEW_MODE_ATTR)).toBe('grid')
+      expect(dom.style.getPropertyValue('--ctp-view-columns')).toBe('4')
+
+      expect(editor2.commands.setViewMode('single')).toBe(true)
+      expect(dom.hasAttribute(VIEW_MODE_ATTR)).toBe(false)
+      expect(dom.style.getPropertyValue('--ctp-view-columns')).toBe('')
+      vi.useRealTimers()
+      editor2.destroy()
+    })
+
+    it('should reject unknown view modes', () => {
+      expect(editor.commands.setViewMode('book' as never)).toBe(false)
+      expect(editor.commands.setViewMode('grid', 0)).toBe(false)
+      expect(editor.storage.pagination.viewMode).toBe('single')
+    })
+
+    it('should measure in the single-column layout', () => {
+      vi.useFakeTimers()
+      const { editor2, offsets } = createThreePageEditor({ viewMode: 'grid' })
+      vi.runOnlyPendingTimers()
+      const dom = editor2.view.dom as HTMLElement
+      const block = editor2.view.nodeDOM(offsets[1]) as HTMLElement
+      const modes: Array<string | null> = []
+      const getRect = block.getBoundingClientRect.bind(block)
+      block.getBoundingClientRect = () => {
+        modes.push(dom.getAttribute(VIEW_MODE_ATTR))
+        return getRect()
+      }
+
+      editor2.commands.setTextSelection(1)
+      vi.runOnlyPendingTimers()
+
+      expect(modes.length).toBeGreaterThan(0)
+      expect(modes.every(mode => mode === null)).toBe(true)
+      expect(dom.getAttribute(VIEW_MODE_ATTR)).toBe('grid')
+      vi.useRealTimers()
+      editor2.destroy()
+    })
+
+    it('should scroll to the row of a page', () => {
+      vi.useFakeTimers()
+      const { editor2 } = createThreePageEditor({ viewMode: 'spread' })
+      vi.runOnlyPendingTimers()
+      const scrollBy = vi.spyOn(window, 'scrollBy').mockImplementation(() => {})
+
+      // Pages 2 and 3 share the second spread
+      editor2.commands.goToPage(3, { behavior: 'auto' })
+      expect(scrollBy).toHaveBeenLastCalledWith({ top: 1096, behavior: 'auto' })
+      scrollBy.mockRestore()
+      vi.useRealTimers()
+      editor2.destroy()
+    })
+
+    it('should stay in one column when columns can\'t wrap into rows', () => {
+      vi.stubGlobal('CSS', { supports: () => false })
+      vi.useFakeTimers()
+      const { editor2 } = createThreePageEditor({ viewMode: 'spread' })
+      vi.runOnlyPendingTimers()
+      const dom = editor2.view.dom as HTMLElement
+      const scrollBy = vi.spyOn(window, 'scrollBy').mockImplementation(() => {})
+
+      expect(editor2.storage.pagination.viewMode).toBe('single')
+      expect(editor2.commands.setViewMode('spread')).toBe(false)
+      expect(editor2.commands.setViewMode('grid', 2)).toBe(false)
+      expect(editor2.commands.setViewMode('single')).toBe(true)
+      expect(dom.hasAttribute(VIEW_MODE_ATTR)).toBe(false)
+      expect(dom.style.getPropertyValue('--ctp-view-columns')).toBe('')
+
+      // Page 3 is scrolled to below pages 1 and 2
+      editor2.commands.goToPage(3, { behavior: 'auto' })
+      expect(scrollBy).toHaveBeenLastCalledWith({ top: 2192, behavior: 'auto' })
+      scrollBy.mockRestore()
+      vi.useRealTimers()
+      editor2.destroy()
+    })
+  })
+
   describe('Page Config Creation', () => {
     it('should create valid page config', () => {
       const config = createPageConfig('Letter', 'portrait', { top: 100 })
@@ -356,6 +855,558 @@ describe('Pagination Extension', () => {
     })
   })
 
+  describe('Odd and Even Page Breaks', () => {
+    function measureBreak(breakType: 'oddPage' | 'evenPage' | 'column') {
+      vi.useFakeTimers()
+      editor.commands.setPageBreak(breakType)
+      const breakEl = editor.view.dom.querySelector('[data-page-break]') as HTMLElement
+      mockRect(editor.view.dom, 0, 0)
+      // 100px into the content area of page 1 (Letter: 96px top margin)
+      mockRect(breakEl, 196, 196)
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+      return breakEl
+    }
+
+    it('should insert a blank page before an odd page', () => {
+      const breakEl = measureBreak('oddPage')
+      // Rest of page 1 + footer, gap and header + the blank page 2
+      expect(breakEl.style.marginBottom).toBe(`${764 + 96 + 40 + 96 + 864}px`)
+      expect(editor.storage.pagination.pageCount).toBe(3)
+    })
+
+    it('should continue on the next page when it is already even', () => {
+      const breakEl = measureBreak('evenPage')
+      expect(breakEl.style.marginBottom).toBe('764px')
+      expect(editor.storage.pagination.pageCount).toBe(2)
+    })
+
+    it('should treat a column break as a page break in a single column', () => {
+      const breakEl = measureBreak('column')
+      expect(breakEl.style.marginBottom).toBe('764px')
+    })
+  })
+
+  describe('Widow/Orphan Control', () => {
+    function createEditorWithStraddlingParagraph(widowOrphanControl: boolean) {
+      const container = document.createElement('div')
+      document.body.appendChild(container)
+
+      const editor2 = new Editor({
+        element: container,
+        extensions: [
+          StarterKit,
+          PageBreak,
+          Pagination.configure({
+            pageFormat: 'Letter',
+            widowOrphanControl,
+            minLinesAtBreak: 2,
+            pageGap: 40,
+          }),
+        ],
+        content: '<p>First</p><p>Second</p>',
+      })
+
+      // Letter: content area 864px tall, 96px top margin.
+      // Paragraph 1 fills most of page 1, paragraph 2 (two 20px lines) starts
+      // 14px above the end of the content area, so no full line fits.
+      mockRect(editor2.view.dom, 0, 0)
+      const first = editor2.view.nodeDOM(0) as HTMLElement
+      const second = editor2.view.nodeDOM(editor2.state.doc.child(0).nodeSize) as HTMLElement
+      second.style.lineHeight = '20px'
+      mockRect(first, 96, 896)
+      mockRect(second, 946, 986)
+
+      return editor2
+    }
+
+    it('should push a paragraph that would leave an orphan to the next page', () => {
+      vi.useFakeTimers()
+      const editor2 = createEditorWithStraddlingParagraph(true)
+
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      const spacer = editor2.view.dom.querySelector(`.${BLOCK_PUSH_SPACER_CLASS}`) as HTMLElement | null
+      expect(spacer).toBeTruthy()
+      // Next page content starts at 96 + (864 + 96 + 40 + 96) = 1192
+      expect(spacer?.style.height).toBe(`${1192 - 946}px`)
+      // The pushed paragraph starts the second page.
+      expect(editor2.storage.pagination.measuredContentHeight).toBe(864 + 40)
+      expect(editor2.storage.pagination.pageCount).toBe(2)
+
+      editor2.destroy()
+    })
+
+    it('should leave straddling paragraphs alone when disabled', () => {
+      vi.useFakeTimers()
+      const editor2 = createEditorWithStraddlingParagraph(false)
+
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      expect(editor2.view.dom.querySelector(`.${BLOCK_PUSH_SPACER_CLASS}`)).toBeNull()
+      expect(editor2.storage.pagination.measuredContentHeight).toBe(986 - 96)
+
+      editor2.destroy()
+    })
+  })
+
+  describe('Page Break Before', () => {
+    it('should start a block with pageBreakBefore on a new page', () => {
+      vi.useFakeTimers()
+      const editor2 = new Editor({
+        element: document.body.appendChild(document.createElement('div')),
+        extensions: [StarterKit, PageBreak, Pagination.configure({ pageFormat: 'Letter', pageGap: 40 })],
+        content: '<p>Intro</p><h2 style="page-break-before: always">Exhibit A</h2>',
+      })
+      const offsets: number[] = []
+      editor2.state.doc.forEach((_node, offset) => offsets.push(offset))
+      mockRect(editor2.view.dom, 0, 0)
+      mockRect(editor2.view.nodeDOM(offsets[0]) as HTMLElement, 96, 120)
+      mockRect(editor2.view.nodeDOM(offsets[1]) as HTMLElement, 120, 150)
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      const spacer = editor2.view.dom.querySelector(`.${BLOCK_PUSH_SPACER_CLASS}`) as HTMLElement | null
+      // Page 2 content starts at 96 + (864 + 96 + 40 + 96) = 1192
+      expect(spacer?.style.height).toBe(`${1192 - 120}px`)
+      expect(editor2.storage.pagination.pageCount).toBe(2)
+      expect(editor2.storage.pagination.pageBreakPositions).toEqual([offsets[1]])
+      editor2.destroy()
+    })
+  })
+
+  describe('Keep With Next and Keep Together', () => {
+    function createEditorWithBlocks(content: string, rects: Array<[number, number]>) {
+      const editor2 = new Editor({
+        element: document.body.appendChild(document.createElement('div')),
+        extensions: [StarterKit, PageBreak, Pagination.configure({ pageFormat: 'Letter', pageGap: 40 })],
+        content,
+      })
+      const offsets: number[] = []
+      editor2.state.doc.forEach((_node, offset) => offsets.push(offset))
+      mockRect(editor2.view.dom, 0, 0)
+      offsets.forEach((offset, index) => {
+        const dom = editor2.view.nodeDOM(offset) as HTMLElement
+        dom.style.lineHeight = '20px'
+        mockRect(dom, ...rects[index])
+      })
+      return { editor2, offsets }
+    }
+
+    it('should push a keepTogether block that would straddle a break', () => {
+      vi.useFakeTimers()
+      // Page 1 content ends at 96 + 864 = 960
+      const { editor2 } = createEditorWithBlocks(
+        '<p>Intro</p><blockquote style="page-break-inside: avoid"><p>Quote</p></blockquote>',
+        [[96, 900], [900, 1000]]
+      )
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      const spacer = editor2.view.dom.querySelector(`.${BLOCK_PUSH_SPACER_CLASS}`) as HTMLElement | null
+      expect(spacer?.style.height).toBe(`${1192 - 900}px`)
+      expect(editor2.storage.pagination.pageCount).toBe(2)
+      editor2.destroy()
+    })
+
+    it('should push a keepWithNext heading with the first line of the next block', () => {
+      vi.useFakeTimers()
+      // The heading fits on page 1, but the paragraph's first line doesn't
+      const { editor2, offsets } = createEditorWithBlocks(
+        '<p>Intro</p><h2 style="page-break-after: avoid">Terms</h2><p>Body</p>',
+        [[96, 900], [900, 940], [950, 1010]]
+      )
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      const spacer = editor2.view.dom.querySelector(`.${BLOCK_PUSH_SPACER_CLASS}`) as HTMLElement | null
+      expect(spacer?.style.height).toBe(`${1192 - 900}px`)
+      expect(editor2.storage.pagination.pageBreakPositions).toEqual([offsets[1]])
+      editor2.destroy()
+    })
+
+    it('should leave a keepWithNext block alone when the next line fits', () => {
+      vi.useFakeTimers()
+      const { editor2 } = createEditorWithBlocks(
+        '<p>Intro</p><h2 style="page-break-after: avoid">Terms</h2><p>Body</p>',
+        [[96, 860], [860, 900], [900, 1010]]
+      )
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      expect(editor2.view.dom.querySelector(`.${BLOCK_PUSH_SPACER_CLASS}`)).toBeNull()
+      editor2.destroy()
+    })
+  })
+
+  describe('Boundary Safety', () => {
+    function createEditorWithRects(content: string, rects: (editor: Editor) => Array<[number, number, number]>) {
+      const editor2 = new Editor({
+        element: document.body.appendChild(document.createElement('div')),
+        extensions: [StarterKit, PageBreak, Pagination.configure({ pageFormat: 'Letter', pageGap: 40 })],
+        content,
+      })
+      mockRect(editor2.view.dom, 0, 0)
+      for (const [pos, top, bottom] of rects(editor2)) {
+        mockRect(editor2.view.nodeDOM(pos) as HTMLElement, top, bottom)
+      }
+      return editor2
+    }
+
+    it('should move a code block crossing a break below the overlay', () => {
+      vi.useFakeTimers()
+      // Page 1 content ends at 960, page 2 content starts at 1192
+      const editor2 = createEditorWithRects('<p>Intro</p><pre><code>const a = 1</code></pre>', editor => [
+        [0, 96, 900],
+        [editor.state.doc.child(0).nodeSize, 900, 1000],
+      ])
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      const codeBlockPos = editor2.state.doc.child(0).nodeSize
+      const spacer = editor2.view.dom.querySelector(`.${BLOCK_PUSH_SPACER_CLASS}`) as HTMLElement | null
+      expect(spacer?.style.height).toBe(`${1192 - 900}px`)
+      expect(editor2.storage.pagination.overlayCollisionPositions).toEqual([codeBlockPos])
+      expect(editor2.storage.pagination.pageBreakPositions).toEqual([codeBlockPos])
+      editor2.destroy()
+    })
+
+    it('should move nested content below the overlay', () => {
+      vi.useFakeTimers()
+      const editor2 = createEditorWithRects(
+        '<blockquote><p>Quote</p><pre><code>x</code></pre></blockquote><p>After</p>',
+        editor => {
+          const quote = editor.state.doc.child(0)
+          return [
+            [0, 96, 1000],
+            [1, 96, 900],
+            [1 + quote.child(0).nodeSize, 900, 1000],
+          ]
+        }
+      )
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      const codeBlockPos = 1 + editor2.state.doc.child(0).child(0).nodeSize
+      const spacer = editor2.view.dom.querySelector(`.${BLOCK_PUSH_SPACER_CLASS}`) as HTMLElement | null
+      expect(spacer?.parentElement).toBe(editor2.view.nodeDOM(0))
+      expect(spacer?.nextElementSibling).toBe(editor2.view.nodeDOM(codeBlockPos))
+      expect(spacer?.style.height).toBe(`${1192 - 900}px`)
+      expect(editor2.storage.pagination.overlayCollisionPositions).toEqual([codeBlockPos])
+      editor2.destroy()
+    })
+
+    it('should leave content taller than a page in place', () => {
+      vi.useFakeTimers()
+      const editor2 = createEditorWithRects('<p>Intro</p><pre><code>long</code></pre>', editor => [
+        [0, 96, 900],
+        [editor.state.doc.child(0).nodeSize, 900, 1900],
+      ])
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      expect(editor2.view.dom.querySelector(`.${BLOCK_PUSH_SPACER_CLASS}`)).toBeNull()
+      expect(editor2.storage.pagination.overlayCollisionPositions).toEqual([])
+      editor2.destroy()
+    })
+
+    it('should map the reported positions through document changes', () => {
+      vi.useFakeTimers()
+      const editor2 = createEditorWithRects('<p>Intro</p><hr><p>After</p>', editor => [
+        [0, 96, 900],
+        [editor.state.doc.child(0).nodeSize, 900, 1000],
+      ])
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      const hrPos = editor2.state.doc.child(0).nodeSize
+      expect(editor2.storage.pagination.overlayCollisionPositions).toEqual([hrPos])
+      editor2.commands.insertContentAt(1, 'New ')
+      expect(editor2.storage.pagination.overlayCollisionPositions).toEqual([hrPos + 4])
+      editor2.destroy()
+    })
+  })
+
+  describe('Table Row Breaks', () => {
+    // Same node names and structure as @tiptap/extension-table
+    const TableFixture = [
+      Node.create({
+        name: 'table',
+        group: 'block',
+        content: 'tableRow+',
+        parseHTML: () => [{ tag: 'table' }],
+        renderHTML: () => ['table', ['tbody', 0]],
+      }),
+      Node.create({
+        name: 'tableRow',
+        content: '(tableCell | tableHeader)+',
+        parseHTML: () => [{ tag: 'tr' }],
+        renderHTML: () => ['tr', 0],
+      }),
+      Node.create({
+        name: 'tableHeader',
+        content: 'paragraph+',
+        addAttributes: () => ({ colspan: { default: 1 } }),
+        parseHTML: () => [{ tag: 'th' }],
+        renderHTML: () => ['th', 0],
+      }),
+      Node.create({
+        name: 'tableCell',
+        content: 'paragraph+',
+        addAttributes: () => ({ colspan: { default: 1 } }),
+        parseHTML: () => [{ tag: 'td' }],
+        renderHTML: () => ['td', 0],
+      }),
+    ]
+    const TABLE_CONTENT = '<p>Intro</p><table><tbody>' +
+      '<tr><th>Name</th><th>Role</th></tr>' +
+      '<tr><td>Ann</td><td>Partner</td></tr>' +
+      '<tr><td>Bob</td><td>Associate</td></tr>' +
+      '<tr><td>Cid</td><td>Clerk</td></tr>' +
+      '</tbody></table>'
+
+    // Letter: page 1 content ends at 96 + 864 = 960, page 2 content starts at 1192
+    function createEditorWithTable(introBottom: number, rowRects: Array<[number, number]>) {
+      const editor2 = new Editor({
+        element: document.body.appendChild(document.createElement('div')),
+        extensions: [StarterKit, PageBreak, ...TableFixture, Pagination.configure({ pageFormat: 'Letter', pageGap: 40 })],
+        content: TABLE_CONTENT,
+      })
+      const tableOffset = editor2.state.doc.child(0).nodeSize
+      const table = editor2.state.doc.child(1)
+      const rowPositions: number[] = []
+      table.forEach((_row, rowOffset) => rowPositions.push(tableOffset + 1 + rowOffset))
+
+      mockRect(editor2.view.dom, 0, 0)
+      mockRect(editor2.view.nodeDOM(0) as HTMLElement, 96, introBottom)
+      mockRect(editor2.view.nodeDOM(tableOffset) as HTMLElement, rowRects[0][0], rowRects[rowRects.length - 1][1])
+      rowPositions.forEach((pos, index) => mockRect(editor2.view.nodeDOM(pos) as HTMLElement, ...rowRects[index]))
+      return { editor2, rowPositions }
+    }
+
+    it('should move a row crossing the page boundary to the next page', () => {
+      vi.useFakeTimers()
+      const { editor2, rowPositions } = createEditorWithTable(800, [[800, 830], [830, 900], [900, 1000], [1000, 1100]])
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      const spacer = editor2.view.dom.querySelector(`.${TABLE_ROW_SPACER_CLASS}`) as HTMLElement | null
+      expect(spacer?.tagName).toBe('TR')
+      expect(spacer?.querySelector('td')?.colSpan).toBe(2)
+      expect(spacer?.querySelector('td')?.style.height).toBe(`${1192 - 900}px`)
+      expect(editor2.view.dom.querySelector(`.${BLOCK_PUSH_SPACER_CLASS}`)).toBeNull()
+      expect(editor2.storage.pagination.pageBreakPositions).toEqual([rowPositions[2]])
+      editor2.destroy()
+    })
+
+    it('should repeat the header rows above the moved row', () => {
+      vi.useFakeTimers()
+      const { editor2, rowPositions } = createEditorWithTable(800, [[800, 830], [830, 900], [900, 1000], [1000, 1100]])
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      const header = editor2.view.dom.querySelector(`.${REPEATED_HEADER_ROW_CLASS}`) as HTMLElement | null
+      expect(header?.textContent).toBe('NameRole')
+      expect(header?.getAttribute('contenteditable')).toBe('false')
+      expect(header?.previousElementSibling?.classList.contains(TABLE_ROW_SPACER_CLASS)).toBe(true)
+      expect(header?.nextElementSibling).toBe(editor2.view.nodeDOM(rowPositions[2]))
+      editor2.destroy()
+    })
+
+    it('should move the table when its header would be separated from the first row', () => {
+      vi.useFakeTimers()
+      const { editor2 } = createEditorWithTable(940, [[940, 970], [970, 1040], [1040, 1100], [1100, 1160]])
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      const spacer = editor2.view.dom.querySelector(`.${BLOCK_PUSH_SPACER_CLASS}`) as HTMLElement | null
+      expect(spacer?.style.height).toBe(`${1192 - 940}px`)
+      expect(editor2.view.dom.querySelector(`.${TABLE_ROW_SPACER_CLASS}`)).toBeNull()
+      editor2.destroy()
+    })
+
+    it('should let a row taller than a page split', () => {
+      vi.useFakeTimers()
+      const { editor2 } = createEditorWithTable(800, [[800, 830], [830, 900], [900, 1900], [1900, 1950]])
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      expect(editor2.view.dom.querySelector(`.${TABLE_ROW_SPACER_CLASS}`)).toBeNull()
+      expect(editor2.view.dom.querySelector(`.${REPEATED_HEADER_ROW_CLASS}`)).toBeNull()
+      editor2.destroy()
+    })
+  })
+
+  describe('Page Mapping', () => {
+    it('should map every position to page 1 before measuring', () => {
+      const docSize = editor.state.doc.content.size
+      expect(editor.storage.pagination.getPageForPos(1)).toBe(1)
+      expect(editor.storage.pagination.getPageRange(1)).toEqual({ from: 0, to: docSize })
+      expect(editor.storage.pagination.getPageRange(2)).toBeNull()
+    })
+
+    it('should compute page ranges during the measurement pass', () => {
+      vi.useFakeTimers()
+      const container = document.createElement('div')
+      document.body.appendChild(container)
+
+      const editor2 = new Editor({
+        element: container,
+        extensions: [StarterKit, PageBreak, Pagination.configure({ pageFormat: 'Letter', pageGap: 40 })],
+        content: '<p>One</p><p>Two</p><p>Three</p>',
+      })
+
+      // Letter: page 2 content starts at 96 + (864 + 96 + 40 + 96) = 1192
+      const offsets: number[] = []
+      editor2.state.doc.forEach((_node, offset) => offsets.push(offset))
+      mockRect(editor2.view.dom, 0, 0)
+      mockRect(editor2.view.nodeDOM(offsets[0]) as HTMLElement, 96, 500)
+      mockRect(editor2.view.nodeDOM(offsets[1]) as HTMLElement, 500, 940)
+      mockRect(editor2.view.nodeDOM(offsets[2]) as HTMLElement, 1192, 1300)
+
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      const storage = editor2.storage.pagination
+      const docSize = editor2.state.doc.content.size
+      expect(storage.pageCount).toBe(2)
+      expect(storage.pageBreakPositions).toEqual([offsets[2]])
+      expect(storage.getPageRange(1)).toEqual({ from: 0, to: offsets[2] })
+      expect(storage.getPageRange(2)).toEqual({ from: offsets[2], to: docSize })
+      expect(storage.getPageForPos(offsets[1] + 1)).toBe(1)
+      expect(storage.getPageForPos(offsets[2] + 1)).toBe(2)
+
+      // Mapping follows edits made before the next measurement.
+      editor2.commands.insertContentAt(1, 'abc')
+      expect(storage.pageBreakPositions).toEqual([offsets[2] + 3])
+      expect(storage.getPageForPos(offsets[2] + 4)).toBe(2)
+
+      editor2.destroy()
+    })
+
+    it('should measure zoomed pages in unscaled page coordinates', () => {
+      vi.useFakeTimers()
+      const page = document.createElement('div')
+      page.className = 'page-wrapper-page'
+      page.style.setProperty('--ctp-page-scale', '2.5')
+      document.body.appendChild(page)
+      const editor2 = new Editor({
+        element: page,
+        extensions: [StarterKit, PageBreak, Pagination.configure({ pageFormat: 'Letter', pageGap: 40 })],
+        content: '<p>One</p><p>Two</p><p>Three</p>',
+      })
+
+      // Same layout as above, drawn at 250%
+      const offsets: number[] = []
+      editor2.state.doc.forEach((_node, offset) => offsets.push(offset))
+      mockRect(editor2.view.dom, 0, 0)
+      mockRect(editor2.view.nodeDOM(offsets[0]) as HTMLElement, 240, 1250)
+      mockRect(editor2.view.nodeDOM(offsets[1]) as HTMLElement, 1250, 2350)
+      mockRect(editor2.view.nodeDOM(offsets[2]) as HTMLElement, 2980, 3250)
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      expect(editor2.storage.pagination.pageCount).toBe(2)
+      expect(editor2.storage.pagination.pageBreakPositions).toEqual([offsets[2]])
+      editor2.destroy()
+    })
+
+    it('should notify transaction listeners when text moves between pages', () => {
+      vi.useFakeTimers()
+      const editor2 = new Editor({
+        element: document.body.appendChild(document.createElement('div')),
+        extensions: [StarterKit, PageBreak, Pagination.configure({ pageFormat: 'Letter', pageGap: 40 })],
+        content: '<p>One</p><p>Two</p><p>Three</p>',
+      })
+      const offsets: number[] = []
+      editor2.state.doc.forEach((_node, offset) => offsets.push(offset))
+      mockRect(editor2.view.dom, 0, 0)
+      mockRect(editor2.view.nodeDOM(offsets[0]) as HTMLElement, 96, 500)
+      mockRect(editor2.view.nodeDOM(offsets[1]) as HTMLElement, 500, 940)
+      mockRect(editor2.view.nodeDOM(offsets[2]) as HTMLElement, 1192, 1300)
+      vi.runOnlyPendingTimers()
+      // Settle with the overlays of both pages rendered
+      editor2.commands.setTextSelection(1)
+      vi.runOnlyPendingTimers()
+      expect(editor2.storage.pagination.pageBreakPositions).toEqual([offsets[2]])
+
+      // Same page count and content height, but "Two" now starts page 2
+      mockRect(editor2.view.nodeDOM(offsets[1]) as HTMLElement, 1192, 1250)
+      mockRect(editor2.view.nodeDOM(offsets[2]) as HTMLElement, 1250, 1300)
+      editor2.commands.setTextSelection(1)
+      const onTransaction = vi.fn()
+      editor2.on('transaction', onTransaction)
+      vi.runOnlyPendingTimers()
+
+      expect(editor2.storage.pagination.pageBreakPositions).toEqual([offsets[1]])
+      expect(onTransaction).toHaveBeenCalled()
+      vi.useRealTimers()
+      editor2.destroy()
+    })
+  })
+
+  describe('Mirror Margins and Gutter', () => {
+    it('should store the binding setup as undoable doc attributes', () => {
+      expect(editor.commands.setMirrorMargins(true)).toBe(true)
+      expect(editor.commands.setGutter('0.5in')).toBe(true)
+      expect(editor.storage.pagination.pageConfig).toMatchObject({ mirrorMargins: true, gutter: '0.5in' })
+      expect(editor.getJSON().attrs).toMatchObject({ [PAGE_MIRROR_MARGINS_ATTR]: true, [PAGE_GUTTER_ATTR]: '0.5in' })
+
+      editor.commands.undo()
+      expect(editor.storage.pagination.pageConfig.gutter).toBeUndefined()
+    })
+
+    it('should reject gutters the margins no longer fit with', () => {
+      expect(editor.commands.setGutter('7in')).toBe(false)
+      expect(editor.commands.setGutter(-10)).toBe(false)
+      expect(editor.commands.setGutter(0)).toBe(true)
+    })
+
+    it('should alternate blocks and overlays on even pages', () => {
+      vi.useFakeTimers()
+      const editor2 = new Editor({
+        element: document.body.appendChild(document.createElement('div')),
+        extensions: [
+          StarterKit,
+          PageBreak,
+          Pagination.configure({
+            pageFormat: 'Letter',
+            margins: { left: 96, right: 48 },
+            mirrorMargins: true,
+            gutter: '0.5in',
+          }),
+        ],
+        content: '<p>One</p><p>Two</p>',
+      })
+
+      const offsets: number[] = []
+      editor2.state.doc.forEach((_node, offset) => offsets.push(offset))
+      mockRect(editor2.view.dom, 0, 0)
+      mockRect(editor2.view.nodeDOM(offsets[0]) as HTMLElement, 96, 940)
+      mockRect(editor2.view.nodeDOM(offsets[1]) as HTMLElement, 1192, 1300)
+      vi.runOnlyPendingTimers()
+      vi.useRealTimers()
+
+      const [odd, even] = editor2.storage.pagination.pageLayouts
+      expect(odd.margins).toMatchObject({ left: 144, right: 48 })
+      expect(getPageMargins(even, 2)).toMatchObject({ left: 48, right: 144 })
+
+      const first = editor2.view.nodeDOM(offsets[0]) as HTMLElement
+      const second = editor2.view.nodeDOM(offsets[1]) as HTMLElement
+      expect(first.hasAttribute('data-ctp-mirrored')).toBe(false)
+      expect(second.getAttribute('data-ctp-mirrored')).toBe('true')
+      expect(second.style.marginLeft).toContain('var(--ctp-overlay-offset-right, 48px)')
+
+      const footer = editor2.view.dom.querySelector(`.${PAGE_FOOTER_CLASS}`) as HTMLElement
+      const header = editor2.view.dom.querySelector(`.${PAGE_HEADER_CLASS}`) as HTMLElement
+      expect(footer.style.paddingLeft).toContain('--ctp-overlay-offset-left')
+      expect(header.style.paddingLeft).toContain('--ctp-overlay-offset-right')
+      editor2.destroy()
+    })
+  })
+
   describe('Overlay Horizontal Alignment', () => {
     it('should derive overlay offset from host container padding', () => {
       const originalRaf = globalThis.requestAnimationFrame
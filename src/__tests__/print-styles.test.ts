@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Editor } from '@tiptap/core'
+import StarterKit from '@tiptap/starter-kit'
+import {
+  PRINT_STYLES_ID,
+  createPrintPageRules,
+  headerFooterHtmlToText,
+  type PrintPageRulesOptions,
+} from '@/extensions/print-styles'
+import { Pagination, type HeaderFooterRenderContent } from '@/extensions/pagination'
+import { PageBreak } from '@/extensions/page-break'
+import { SectionBreak } from '@/extensions/section-break'
+import { createPageConfig } from '@/extensions/page-format'
+
+function createOptions(overrides: Partial<PrintPageRulesOptions> = {}): PrintPageRulesOptions {
+  const headerFooter: HeaderFooterRenderContent = {
+    differentFirstPage: false,
+    differentOddEven: false,
+    variants: {
+      default: { header: {}, footer: {} },
+      first: { header: {}, footer: {} },
+      even: { header: {}, footer: {} },
+    },
+    tokens: { date: '1/2/2025', title: 'Smith v. Jones' },
+  }
+  return {
+    sections: [createPageConfig('Letter', 'portrait')],
+    headerFooter,
+    displayOptions: {
+      showPageNumbers: true,
+      separator: 'of',
+      style: 'arabic',
+      startNumber: 1,
+      position: { area: 'footer', slot: 'right' },
+    },
+    pageCount: 3,
+    ...overrides,
+  }
+}
+
+describe('print-styles', () => {
+  describe('createPrintPageRules', () => {
+    it('should size the page from the page config', () => {
+      const css = createPrintPageRules(createOptions({
+        sections: [createPageConfig('Legal', 'landscape', { left: 144 })],
+      }))
+      expect(css).toContain('@media print')
+      expect(css).toContain('size: 1344px 816px;')
+      expect(css).toContain('margin: 96px 96px 96px 144px;')
+    })
+
+    it('should mirror the margins and add the gutter on the binding edge', () => {
+      const css = createPrintPageRules(createOptions({
+        sections: [createPageConfig('Letter', 'portrait', { left: '1.25in', right: '1in' }, { mirrorMargins: true, gutter: '0.5in' })],
+      }))
+      expect(css).toContain('margin: 96px 1in 96px calc(1.25in + 0.5in);')
+      expect(css).toContain('@page :left { margin: 96px calc(1.25in + 0.5in) 96px 1in; }')
+    })
+
+    it('should render the page number as a margin box', () => {
+      const css = createPrintPageRules(createOptions())
+      expect(css).toContain('@bottom-right { content: counter(page, decimal) " of " counter(pages, decimal);')
+    })
+
+    it('should render header/footer slots with tokens', () => {
+      const options = createOptions()
+      options.headerFooter.variants.default.header = { left: '<strong>ACME</strong> &amp; Co', center: '{title}' }
+      options.displayOptions.style = 'lower-roman'
+      options.headerFooter.variants.default.footer = { right: 'Page {page}' }
+
+      const css = createPrintPageRules(options)
+      expect(css).toContain('@top-left { content: "ACME & Co";')
+      expect(css).toContain('@top-center { content: "Smith v. Jones";')
+      expect(css).toContain('@bottom-right { content: "Page " counter(page, lower-roman);')
+    })
+
+    it('should emit first-page and even-page variants', () => {
+      const options = createOptions()
+      options.headerFooter.differentFirstPage = true
+      options.headerFooter.differentOddEven = true
+      options.headerFooter.variants.first.header = { center: 'Letterhead' }
+
+      const css = createPrintPageRules(options)
+      expect(css).toContain('@page :first { @top-left { content: none;')
+      expect(css).toContain('@top-center { content: "Letterhead";')
+      // Page number mirrored to the outside edge of left pages
+      expect(css).toMatch(/@page :left \{.*@bottom-left \{ content: counter\(page, decimal\)/)
+    })
+
+    it('should offset page numbers by the start number', () => {
+      const css = createPrintPageRules(createOptions({
+        displayOptions: {
+          showPageNumbers: true,
+          separator: 'of',
+          style: 'arabic',
+          startNumber: 15,
+          position: { area: 'footer', slot: 'right' },
+        },
+      }))
+      expect(css).toContain('@page :first { counter-reset: page 14; }')
+      expect(css).toContain('counter(page, decimal) " of " "17"')
+    })
+
+    it('should create a named page per section', () => {
+      const css = createPrintPageRules(createOptions({
+        sections: [createPageConfig('Letter', 'portrait'), createPageConfig('Letter', 'landscape')],
+      }))
+      expect(css).toContain('@page ctp-section-1 { size: 1056px 816px;')
+      expect(css).toContain('[data-ctp-section="1"] { page: ctp-section-1; }')
+    })
+  })
+
+  describe('headerFooterHtmlToText', () => {
+    it('should strip tags and decode entities', () => {
+      expect(headerFooterHtmlToText('<em>A</em><br>B &lt;C&gt; <img src="x.png">')).toBe('A B <C>')
+    })
+  })
+})
+
+describe('Pagination print styles', () => {
+  let editor: Editor
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    const container = document.createElement('div')
+    document.body.appendChild(container)
+    editor = new Editor({
+      element: container,
+      extensions: [StarterKit, PageBreak, SectionBreak, Pagination.configure({ pageFormat: 'Letter' })],
+      content: '<p>Test content</p>',
+    })
+    vi.runOnlyPendingTimers()
+  })
+
+  afterEach(() => {
+    editor.destroy()
+    vi.useRealTimers()
+    document.body.innerHTML = ''
+  })
+
+  const getPrintStyles = () => document.querySelectorAll(`style[id^="${PRINT_STYLES_ID}-"]`)
+  const getPrintCss = () => getPrintStyles()[0]?.textContent ?? ''
+
+  it('should inject @page rules for the document setup', () => {
+    expect(getPrintCss()).toContain('size: 816px 1056px;')
+  })
+
+  it('should update the rules when the page setup changes', () => {
+    editor.commands.setOrientation('landscape')
+    expect(getPrintCss()).toContain('size: 1056px 816px;')
+
+    editor.commands.setPageFooter({ left: 'Confidential' })
+    expect(getPrintCss()).toContain('@bottom-left { content: "Confidential";')
+  })
+
+  it('should remove the rules when the editor is destroyed', () => {
+    editor.destroy()
+    expect(getPrintStyles()).toHaveLength(0)
+  })
+
+  it('should keep the rules and styles of other editors', () => {
+    const editor2 = new Editor({
+      element: document.body.appendChild(document.createElement('div')),
+      extensions: [StarterKit, PageBreak, Pagination.configure({ pageFormat: 'A4' })],
+      content: '<p>Second</p>',
+    })
+    vi.runOnlyPendingTimers()
+    editor.commands.setOrientation('landscape')
+
+    const [first, second] = Array.from(getPrintStyles(), style => style.textContent ?? '')
+    expect(first).toContain('size: 1056px 816px;')
+    expect(second).toContain('size: 793.7')
+
+    editor2.destroy()
+    expect(getPrintStyles()).toHaveLength(1)
+    expect(getPrintCss()).toContain('size: 1056px 816px;')
+    expect(document.getElementById('ctp-pagination-styles')).not.toBeNull()
+
+    editor.destroy()
+    expect(document.getElementById('ctp-pagination-styles')).toBeNull()
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getRulerTicks,
+  getMarginHandles,
+  getDraggedMargin,
+  MIN_CONTENT_SIZE,
+} from '@/extensions/ruler'
+import { cmToPixels, createPageConfig, getPageLayoutDimensions } from '@/extensions/page-format'
+
+describe('ruler', () => {
+  const letter = getPageLayoutDimensions(createPageConfig('Letter', 'portrait'))
+
+  describe('getRulerTicks', () => {
+    it('should mark inches, halves and eighths', () => {
+      const ticks = getRulerTicks(letter.page.width, 'in')
+      expect(ticks).toHaveLength(69)
+      expect(ticks[8]).toEqual({ position: 96, value: 1, kind: 'major' })
+      expect(ticks[4].kind).toBe('half')
+      expect(ticks[1]).toEqual({ position: 12, value: 0.125, kind: 'minor' })
+      expect(ticks[ticks.length - 1].value).toBe(8.5)
+    })
+
+    it('should mark centimeters in quarters', () => {
+      const ticks = getRulerTicks(cmToPixels(3), 'cm')
+      expect(ticks.map(tick => tick.kind)).toEqual([
+        'major', 'minor', 'half', 'minor',
+        'major', 'minor', 'half', 'minor',
+        'major', 'minor', 'half', 'minor',
+        'major',
+      ])
+    })
+  })
+
+  describe('getMarginHandles', () => {
+    it('should place the handles at the margins', () => {
+      expect(getMarginHandles(letter, 1, 'horizontal')).toEqual([
+        { side: 'left', margin: 'left', position: 96, offset: 0 },
+        { side: 'right', margin: 'right', position: 720, offset: 0 },
+      ])
+      expect(getMarginHandles(letter, 1, 'vertical').map(handle => handle.position)).toEqual([96, 960])
+    })
+
+    it('should follow the gutter to the binding edge of mirrored pages', () => {
+      const layout = getPageLayoutDimensions(
+        createPageConfig('Letter', 'portrait', { left: 72 }, { mirrorMargins: true, gutter: 48 })
+      )
+      expect(getMarginHandles(layout, 1, 'horizontal')).toEqual([
+        { side: 'left', margin: 'left', position: 120, offset: 48 },
+        { side: 'right', margin: 'right', position: 720, offset: 0 },
+      ])
+      expect(getMarginHandles(layout, 2, 'horizontal')).toEqual([
+        { side: 'left', margin: 'right', position: 96, offset: 0 },
+        { side: 'right', margin: 'left', position: 696, offset: 48 },
+      ])
+    })
+  })
+
+  describe('getDraggedMargin', () => {
+    const [left, right] = getMarginHandles(letter, 1, 'horizontal')
+
+    it('should snap to eighths of an inch', () => {
+      expect(getDraggedMargin(letter, 1, left, 125, 'in')).toBe('1.25in')
+      expect(getDraggedMargin(letter, 1, right, 816 - 50, 'in')).toBe('0.5in')
+    })
+
+    it('should snap to quarter centimeters', () => {
+      expect(getDraggedMargin(letter, 1, left, cmToPixels(2.3), 'cm')).toBe('2.25cm')
+    })
+
+    it('should round unsnapped margins to hundredths', () => {
+      expect(getDraggedMargin(letter, 1, left, 125, 'in', { snap: false })).toBe('1.3in')
+      expect(getDraggedMargin(letter, 1, left, 123, 'in', { snap: false })).toBe('1.28in')
+    })
+
+    it('should keep a writable area and stay on the page', () => {
+      expect(getDraggedMargin(letter, 1, left, -20, 'in')).toBe('0in')
+      expect(getDraggedMargin(letter, 1, left, 800, 'in')).toBe(`${(816 - 96 - MIN_CONTENT_SIZE) / 96}in`)
+    })
+
+    it('should leave the gutter out of the margin', () => {
+      const layout = getPageLayoutDimensions(createPageConfig('Letter', 'portrait', {}, { gutter: 48 }))
+      const [binding] = getMarginHandles(layout, 1, 'horizontal')
+      expect(getDraggedMargin(layout, 1, binding, 192, 'in')).toBe('1.5in')
+    })
+
+    it('should stop at the opposite margin and the gutter', () => {
+      const layout = getPageLayoutDimensions(createPageConfig('Letter', 'portrait', {}, { mirrorMargins: true, gutter: 48 }))
+      // Page 1: the gutter sits on the left, next to the left margin
+      const [, outside] = getMarginHandles(layout, 1, 'horizontal')
+      expect(getDraggedMargin(layout, 1, outside, 0, 'in')).toBe(`${(816 - 96 - 48 - MIN_CONTENT_SIZE) / 96}in`)
+      // Page 2: the gutter moves to the right, next to the same margin
+      const [outsideMirrored, inside] = getMarginHandles(layout, 2, 'horizontal')
+      expect(getDraggedMargin(layout, 2, outsideMirrored, 816, 'in')).toBe(`${(816 - 96 - 48 - MIN_CONTENT_SIZE) / 96}in`)
+      expect(getDraggedMargin(layout, 2, inside, 0, 'in')).toBe(`${(816 - 96 - 48 - MIN_CONTENT_SIZE) / 96}in`)
+    })
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Editor } from '@tiptap/core'
+import StarterKit from '@tiptap/starter-kit'
+import {
+  SectionBreak,
+  getSectionPageConfigs,
+  resolveSectionPageConfig,
+} from '@/extensions/section-break'
+import {
+  Pagination,
+  PAGE_HEADER_CLASS,
+  PAGE_FOOTER_CLASS,
+  LAST_PAGE_FOOTER_CONTENT_CLASS,
+} from '@/extensions/pagination'
+import { PageBreak } from '@/extensions/page-break'
+import { createPageConfig } from '@/extensions/page-format'
+import type { PageLayoutDimensions } from '@/extensions/page-format'
+
+const SECTIONED_CONTENT =
+  '<p>Contract</p><div data-section-break="true" data-orientation="landscape"></div><p>Schedule</p>'
+
+describe('SectionBreak Extension', () => {
+  let editor: Editor
+
+  beforeEach(() => {
+    editor = new Editor({
+      extensions: [StarterKit, PageBreak, SectionBreak],
+      content: '<p>Test content</p>',
+    })
+  })
+
+  afterEach(() => {
+    editor.destroy()
+  })
+
+  describe('setSectionBreak Command', () => {
+    it('should insert a section break carrying its page setup', () => {
+      editor.commands.setTextSelection(editor.state.doc.content.size)
+      editor.commands.setSectionBreak({ format: 'A4', orientation: 'landscape', margins: { left: 48 } })
+
+      const node = editor.getJSON().content?.find(n => n.type === 'sectionBreak')
+      expect(node?.attrs).toEqual({ format: 'A4', orientation: 'landscape', margins: { left: 48 } })
+    })
+
+    it('should inherit unset values by default', () => {
+      editor.commands.setSectionBreak()
+      const node = editor.getJSON().content?.find(n => n.type === 'sectionBreak')
+      expect(node?.attrs).toEqual({ format: null, orientation: null, margins: {} })
+    })
+  })
+
+  describe('HTML', () => {
+    it('should render a stable marker and label', () => {
+      editor.commands.setSectionBreak({ format: 'Legal', orientation: 'landscape' })
+      const html = editor.getHTML()
+      expect(html).toContain('data-section-break="true"')
+      expect(html).toContain('class="section-break"')
+      expect(html).toContain('data-format="Legal"')
+      expect(html).toContain('data-orientation="landscape"')
+      expect(html).toContain('Section Break (Legal, Landscape)')
+    })
+
+    it('should round-trip through HTML', () => {
+      editor.commands.setSectionBreak({ format: { width: 600, height: 800 }, margins: { top: 50 } })
+      const html = editor.getHTML()
+
+      const editor2 = new Editor({ extensions: [StarterKit, SectionBreak], content: html })
+      const node = editor2.getJSON().content?.find(n => n.type === 'sectionBreak')
+      expect(node?.attrs).toEqual({ format: { width: 600, height: 800 }, orientation: null, margins: { top: 50 } })
+      editor2.destroy()
+    })
+  })
+
+  describe('Section Page Configs', () => {
+    it('should resolve each section against the previous one', () => {
+      editor.commands.setContent(
+        '<p>A</p><div data-section-break data-orientation="landscape"></div><p>B</p>' +
+        '<div data-section-break data-format="Legal" data-orientation="portrait"></div><p>C</p>'
+      )
+      const base = createPageConfig('Letter', 'portrait', { left: 120 })
+      const configs = getSectionPageConfigs(editor.state.doc, base)
+
+      expect(configs).toHaveLength(3)
+      expect(configs[0]).toBe(base)
+      // Same format: margins are kept
+      expect(configs[1]).toEqual({ format: 'Letter', orientation: 'landscape', margins: { top: 96, right: 96, bottom: 96, left: 120 } })
+      // New format: its default margins apply
+      expect(configs[2]).toEqual(createPageConfig('Legal', 'portrait'))
+    })
+
+    it('should apply margin overrides', () => {
+      const config = resolveSectionPageConfig(
+        { format: 'A4', orientation: null, margins: { top: 20 } },
+        createPageConfig('Letter', 'landscape')
+      )
+      expect(config.format).toBe('A4')
+      expect(config.orientation).toBe('landscape')
+      expect(config.margins.top).toBe(20)
+    })
+  })
+})
+
+describe('Pagination with sections', () => {
+  let editor: Editor
+  let layoutsChanged: PageLayoutDimensions[] | null
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    layoutsChanged = null
+    const container = document.createElement('div')
+    document.body.appendChild(container)
+    editor = new Editor({
+      element: container,
+      extensions: [
+        StarterKit,
+        PageBreak,
+        SectionBreak,
+        Pagination.configure({
+          pageFormat: 'Letter',
+          pageGap: 40,
+          onPageLayoutsChange: layouts => {
+            layoutsChanged = layouts
+          },
+        }),
+      ],
+      content: SECTIONED_CONTENT,
+    })
+    vi.runOnlyPendingTimers()
+  })
+
+  afterEach(() => {
+    editor.destroy()
+    vi.useRealTimers()
+    document.body.innerHTML = ''
+  })
+
+  it('should start a new page with the section layout', () => {
+    const { pageCount, pageLayouts } = editor.storage.pagination
+    expect(pageCount).toBe(2)
+    expect(pageLayouts.map(l => l.page)).toEqual([
+      { width: 816, height: 1056 },
+      { width: 1056, height: 816 },
+    ])
+    expect(layoutsChanged).toHaveLength(2)
+  })
+
+  it('should size the overlays of each page', () => {
+    const footer = editor.view.dom.querySelector(`.${PAGE_FOOTER_CLASS}`) as HTMLElement
+    const header = editor.view.dom.querySelector(`.${PAGE_HEADER_CLASS}`) as HTMLElement
+    const lastFooter = editor.view.dom.querySelector(`.${LAST_PAGE_FOOTER_CONTENT_CLASS}`) as HTMLElement
+
+    // Page 1 keeps the document layout
+    expect(footer.style.width).toBe('')
+    // Page 2 is landscape, centered on the portrait page
+    expect(header.style.width).toBe('1056px')
+    expect(header.style.marginLeft).toBe('-120px')
+    expect(lastFooter.style.width).toBe('1056px')
+  })
+
+  it('should widen blocks of a wider section', () => {
+    const schedule = editor.view.nodeDOM(editor.state.doc.content.size - editor.state.doc.lastChild!.nodeSize) as HTMLElement
+    const contract = editor.view.nodeDOM(0) as HTMLElement
+
+    expect(schedule.getAttribute('data-ctp-section')).toBe('1')
+    expect(schedule.style.marginLeft).toContain('calc(-24px')
+    expect(contract.hasAttribute('data-ctp-section')).toBe(false)
+  })
+
+  it('should drop the section layout when the break is removed', () => {
+    let breakPos = -1
+    editor.state.doc.forEach((node, offset) => {
+      if (node.type.name === 'sectionBreak') breakPos = offset
+    })
+    editor.commands.deleteRange({ from: breakPos, to: breakPos + 1 })
+    vi.runOnlyPendingTimers()
+    vi.runOnlyPendingTimers()
+
+    expect(editor.storage.pagination.pageCount).toBe(1)
+    expect(editor.storage.pagination.pageLayouts.map(l => l.page.width)).toEqual([816])
+  })
+})
@@ -1,11 +1,23 @@
 'use client'
 
-import { useState, useCallback, useRef } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { useEditor, EditorContent } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
-import { PageWrapper } from '@/components/PageWrapper'
+import { PageWrapper, type PageZoom } from '@/components/PageWrapper'
 import { Toolbar } from '@/components/Toolbar'
-import { PageBreak, Pagination, PageFormatName, PageOrientation } from '@/extensions'
+import { PageNavigator } from '@/components/PageNavigator'
+import { HorizontalRuler, VerticalRuler } from '@/components/Ruler'
+import {
+  PageBreak,
+  SectionBreak,
+  Pagination,
+  PageFormatName,
+  PageOrientation,
+  PageLayoutDimensions,
+  PageMarginLengths,
+  PageViewMode,
+  RulerUnit,
+} from '@/extensions'
 
 const SAMPLE_CONTENT = `
 <h1>Community Tiptap Pages Demo</h1>
@@ -160,6 +172,12 @@ export default function HomePage() {
   const [format, setFormat] = useState<PageFormatName>('Letter')
   const [orientation, setOrientation] = useState<PageOrientation>('portrait')
   const [pageCount, setPageCount] = useState(1)
+  const [pageLayouts, setPageLayouts] = useState<PageLayoutDimensions[]>()
+  // Unset: 100%, scaled down to fit narrow screens
+  const [zoom, setZoom] = useState<PageZoom>()
+  const [viewMode, setViewMode] = useState<PageViewMode>('single')
+  const [margins, setMargins] = useState<PageMarginLengths>()
+  const [rulerUnit, setRulerUnit] = useState<RulerUnit>('in')
   const editorRef = useRef<ReturnType<typeof useEditor>>(null)
 
   const editor = useEditor({
@@ -170,10 +188,12 @@ export default function HomePage() {
         },
       }),
       PageBreak,
+      SectionBreak,
       Pagination.configure({
         pageFormat: format,
         orientation,
         onPageCountChange: setPageCount,
+        onPageLayoutsChange: setPageLayouts,
       }),
     ],
     content: SAMPLE_CONTENT,
@@ -190,6 +210,22 @@ export default function HomePage() {
     editorRef.current = editor
   }
 
+  // The page setup is stored in the document: follow undo/redo
+  useEffect(() => {
+    if (!editor) return
+    const syncPageSetup = () => {
+      const config = editor.storage.pagination.pageConfig
+      if (typeof config.format === 'string') setFormat(config.format)
+      setOrientation(config.orientation)
+      // Margins dragged on the rulers
+      setMargins(config.margins)
+    }
+    editor.on('transaction', syncPageSetup)
+    return () => {
+      editor.off('transaction', syncPageSetup)
+    }
+  }, [editor])
+
   const handleFormatChange = useCallback((newFormat: PageFormatName) => {
     setFormat(newFormat)
     editor?.commands.setPageFormat(newFormat)
@@ -204,6 +240,21 @@ export default function HomePage() {
     editor?.commands.setPageBreak()
   }, [editor])
 
+  const handleInsertSectionBreak = useCallback(() => {
+    if (!editor) return
+    // Switch orientation for the next section (e.g. a landscape schedule)
+    const { pageLayouts: layouts } = editor.storage.pagination
+    const page = editor.storage.pagination.getPageForPos(editor.state.selection.head)
+    const current = layouts[page - 1] ?? layouts[layouts.length - 1]
+    const isLandscape = current ? current.page.width > current.page.height : orientation === 'landscape'
+    editor.commands.setSectionBreak({ orientation: isLandscape ? 'portrait' : 'landscape' })
+  }, [editor, orientation])
+
+  const handleViewModeChange = useCallback((mode: PageViewMode) => {
+    // Spread and grid are rejected where the browser can't show them
+    if (editor?.commands.setViewMode(mode)) setViewMode(mode)
+  }, [editor])
+
   const handlePrint = useCallback(() => {
     window.print()
   }, [])
@@ -217,17 +268,43 @@ export default function HomePage() {
         onFormatChange={handleFormatChange}
         onOrientationChange={handleOrientationChange}
         onInsertPageBreak={handleInsertPageBreak}
+        onInsertSectionBreak={handleInsertSectionBreak}
         onPrint={handlePrint}
+        zoom={zoom}
+        onZoomChange={setZoom}
+        viewMode={viewMode}
+        onViewModeChange={handleViewModeChange}
+        rulerUnit={rulerUnit}
+        onRulerUnitChange={setRulerUnit}
       />
-      
-      <PageWrapper
-        format={format}
-        orientation={orientation}
-        containerClassName="flex-1"
-        testId="paged-editor"
-      >
-        <EditorContent editor={editor} />
-      </PageWrapper>
+
+      <div className="flex flex-1">
+        <PageNavigator
+          editor={editor}
+          className="hidden md:block w-44 shrink-0 sticky top-16 self-start max-h-[calc(100vh-4rem)]"
+          testId="page-navigator"
+        />
+
+        <PageWrapper
+          format={format}
+          orientation={orientation}
+          margins={margins}
+          containerClassName="flex-1 min-w-0"
+          pages={pageLayouts}
+          viewMode={viewMode}
+          zoom={zoom}
+          onZoomChange={setZoom}
+          rulers={
+            <>
+              <HorizontalRuler editor={editor} unit={rulerUnit} />
+              <VerticalRuler editor={editor} unit={rulerUnit} />
+            </>
+          }
+          testId="paged-editor"
+        >
+          <EditorContent editor={editor} />
+        </PageWrapper>
+      </div>
     </div>
   )
 }
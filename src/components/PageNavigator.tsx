@@ -0,0 +1,245 @@
+'use client'
+
+import React, { memo, useCallback, useEffect, useRef, useState } from 'react'
+import type { Editor } from '@tiptap/core'
+import { DOMSerializer } from '@tiptap/pm/model'
+import type { Fragment, Node as ProseMirrorNode, Schema } from '@tiptap/pm/model'
+import type { PageLayoutDimensions, PageRange } from '../extensions'
+
+export interface PageNavigatorProps {
+  /**
+   * Editor with the Pagination extension
+   */
+  editor: Editor | null
+
+  /**
+   * Width of a thumbnail in pixels; the height follows the page's aspect ratio
+   */
+  thumbnailWidth?: number
+
+  /**
+   * Called after a thumbnail was clicked and the editor moved to its page
+   */
+  onPageSelect?: (page: number) => void
+
+  /**
+   * Additional class names for the panel
+   */
+  className?: string
+
+  /**
+   * Optional test id for E2E/smoke tests
+   */
+  testId?: string
+}
+
+interface PageSnapshot {
+  content: Fragment
+  layout: PageLayoutDimensions
+}
+
+interface NavigatorSnapshot {
+  pages: PageSnapshot[]
+  currentPage: number
+  /** Sources of `pages`, to tell whether they have to be sliced again */
+  doc: ProseMirrorNode
+  pageRanges: PageRange[]
+  pageLayouts: PageLayoutDimensions[]
+}
+
+/**
+ * Slice the document into pages. Selection-only transactions keep the
+ * previous page fragments, so typing in long documents doesn't slice every
+ * page on each frame.
+ */
+function createSnapshot(editor: Editor, previous: NavigatorSnapshot | null): NavigatorSnapshot {
+  const { pageRanges, pageLayouts, currentPage } = editor.storage.pagination
+  const { doc } = editor.state
+  if (
+    previous &&
+    previous.doc === doc &&
+    previous.pageLayouts === pageLayouts &&
+    samePageRanges(previous.pageRanges, pageRanges)
+  ) {
+    return previous.currentPage === currentPage ? previous : { ...previous, currentPage }
+  }
+  const pages = pageRanges.map((range, index) => ({
+    content: doc.slice(range.from, range.to).content,
+    layout: pageLayouts[index] ?? pageLayouts[pageLayouts.length - 1],
+  }))
+  return { pages, currentPage, doc, pageRanges, pageLayouts }
+}
+
+function samePageRanges(a: PageRange[], b: PageRange[]): boolean {
+  return a === b || (
+    a.length === b.length &&
+    a.every((range, index) => range.from === b[index].from && range.to === b[index].to)
+  )
+}
+
+function sameLayout(a: PageLayoutDimensions, b: PageLayoutDimensions): boolean {
+  return a.page.width === b.page.width &&
+    a.page.height === b.page.height &&
+    a.margins.top === b.margins.top &&
+    a.margins.left === b.margins.left &&
+    a.content.width === b.content.width
+}
+
+interface PageThumbnailProps {
+  page: number
+  content: Fragment
+  layout: PageLayoutDimensions
+  schema: Schema
+  width: number
+  current: boolean
+  onSelect: (page: number) => void
+}
+
+/**
+ * One page drawn at thumbnail scale. The page content is serialized with the
+ * schema's `toDOM` specs (no editor view, no node views) and only once the
+ * thumbnail scrolls into the panel.
+ */
+const PageThumbnail = memo(function PageThumbnail({
+  page,
+  content,
+  layout,
+  schema,
+  width,
+  current,
+  onSelect,
+}: PageThumbnailProps) {
+  const sheetRef = useRef<HTMLDivElement | null>(null)
+  const contentRef = useRef<HTMLDivElement | null>(null)
+  const [inView, setInView] = useState(typeof IntersectionObserver === 'undefined')
+
+  // Render previews lazily: long documents have hundreds of pages
+  useEffect(() => {
+    const sheetEl = sheetRef.current
+    if (!sheetEl || inView) return
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) setInView(true)
+    }, { rootMargin: '200px' })
+    observer.observe(sheetEl)
+    return () => observer.disconnect()
+  }, [inView])
+
+  useEffect(() => {
+    const sheetEl = sheetRef.current
+    const contentEl = contentRef.current
+    if (!sheetEl || !contentEl) return
+    const scale = width / layout.page.width
+    sheetEl.style.setProperty('--ctp-thumbnail-width', `${width}px`)
+    sheetEl.style.setProperty('--ctp-thumbnail-height', `${Math.round(layout.page.height * scale)}px`)
+    contentEl.style.setProperty('--ctp-thumbnail-scale', String(scale))
+    contentEl.style.setProperty('--ctp-thumbnail-top', `${layout.margins.top * scale}px`)
+    contentEl.style.setProperty('--ctp-thumbnail-left', `${layout.margins.left * scale}px`)
+    contentEl.style.setProperty('--ctp-thumbnail-content-width', `${layout.content.width}px`)
+    contentEl.style.setProperty('--ctp-thumbnail-content-height', `${layout.content.height}px`)
+  }, [width, layout])
+
+  useEffect(() => {
+    const contentEl = contentRef.current
+    if (!contentEl || !inView) return
+    contentEl.replaceChildren(DOMSerializer.fromSchema(schema).serializeFragment(content))
+  }, [content, schema, inView])
+
+  return (
+    <li className="page-navigator-item">
+      <button
+        type="button"
+        className={`page-navigator-thumbnail ${current ? 'page-navigator-thumbnail-current' : ''}`}
+        aria-current={current ? 'page' : undefined}
+        aria-label={`Page ${page}`}
+        data-page={page}
+        onClick={() => onSelect(page)}
+      >
+        <div ref={sheetRef} className="page-navigator-sheet">
+          <div ref={contentRef} className="page-navigator-content" aria-hidden="true" />
+        </div>
+        <span className="page-navigator-label">{page}</span>
+      </button>
+    </li>
+  )
+}, (prev, next) => {
+  return prev.page === next.page &&
+    prev.current === next.current &&
+    prev.width === next.width &&
+    prev.schema === next.schema &&
+    prev.onSelect === next.onSelect &&
+    (prev.content === next.content || prev.content.eq(next.content)) &&
+    sameLayout(prev.layout, next.layout)
+})
+
+/**
+ * PageNavigator Component
+ *
+ * A side panel listing every page as a scaled-down live preview, with the
+ * page of the selection highlighted. Clicking a thumbnail moves the
+ * selection to that page (`goToPage`).
+ *
+ * Pages are read from the Pagination storage (`pageRanges`, `pageLayouts`)
+ * and refreshed after each transaction, at most once per frame; pages are
+ * only sliced again when the document, the ranges or the layouts changed.
+ * Thumbnails whose content didn't change are not re-rendered.
+ */
+export function PageNavigator({
+  editor,
+  thumbnailWidth = 120,
+  onPageSelect,
+  className = '',
+  testId,
+}: PageNavigatorProps) {
+  const [snapshot, setSnapshot] = useState<NavigatorSnapshot | null>(null)
+  const onPageSelectRef = useRef(onPageSelect)
+  onPageSelectRef.current = onPageSelect
+
+  useEffect(() => {
+    if (!editor) return
+    let frame: number | null = null
+    let current: NavigatorSnapshot | null = null
+    const sync = () => {
+      frame = null
+      if (editor.isDestroyed) return
+      current = createSnapshot(editor, current)
+      setSnapshot(current)
+    }
+    const scheduleSync = () => {
+      if (frame === null) frame = requestAnimationFrame(sync)
+    }
+    sync()
+    editor.on('transaction', scheduleSync)
+    return () => {
+      editor.off('transaction', scheduleSync)
+      if (frame !== null) cancelAnimationFrame(frame)
+    }
+  }, [editor])
+
+  const handleSelect = useCallback((page: number) => {
+    if (!editor || !editor.commands.goToPage(page)) return
+    onPageSelectRef.current?.(page)
+  }, [editor])
+
+  if (!editor || !snapshot) return null
+
+  return (
+    <nav className={`page-navigator ${className}`} aria-label="Pages" data-testid={testId}>
+      <ol className="page-navigator-list">
+        {snapshot.pages.map((page, index) => (
+          <PageThumbnail
+            key={index}
+            page={index + 1}
+            content={page.content}
+            layout={page.layout}
+            schema={editor.schema}
+            width={thumbnailWidth}
+            current={snapshot.currentPage === index + 1}
+            onSelect={handleSelect}
+          />
+        ))}
+      </ol>
+    </nav>
+  )
+}
+
+export default PageNavigator
@@ -1,20 +1,103 @@
 'use client'
 
-import React, { useEffect, useMemo, useRef, useState, type CSSProperties } from 'react'
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type CSSProperties } from 'react'
 import {
   PageConfig,
   PageFormatName,
+  PageGrid,
   PageOrientation,
-  PageMargins,
+  PageMarginLengths,
+  PageSizeLengths,
+  PageLayoutDimensions,
+  PageViewMode,
+  Length,
+  DEFAULT_DPI,
   createPageConfig,
+  getPageGrid,
+  getPageGridCell,
   getPageLayoutDimensions,
 } from '../extensions/page-format'
 
+/**
+ * Zoom level: a scale factor (1 = 100%), the width of the widest page
+ * (`fit-width`) or a whole page (`fit-page`) fitted into the container
+ */
+export type PageZoom = number | 'fit-width' | 'fit-page'
+
+export const MIN_ZOOM = 0.5
+export const MAX_ZOOM = 4
+
+/** Zoom levels offered by the Toolbar */
+export const ZOOM_PRESETS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4]
+
+// Ctrl+wheel: zoom factor per wheel delta pixel; larger deltas (mouse wheel
+// notches) are capped so one notch zooms by about 20%
+const WHEEL_ZOOM_SPEED = 0.01
+const MAX_WHEEL_DELTA = 25
+
+/**
+ * Limit a zoom factor to the supported range (50–400%)
+ */
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+}
+
+/**
+ * Position and size of a page on the page element (unscaled pixels)
+ */
+export interface PageBox {
+  top: number
+  left: number
+  width: number
+  height: number
+}
+
+/**
+ * Page geometry shared with components drawn along the pages (rulers)
+ */
+export interface PageWrapperLayout {
+  /** Scale the pages are drawn at */
+  scale: number
+  /** Boxes of the given pages (`editor.storage.pagination.pageLayouts`) */
+  getPageBoxes: (pages: PageLayoutDimensions[]) => PageBox[]
+}
+
+const PageWrapperContext = createContext<PageWrapperLayout | null>(null)
+
+/**
+ * Page geometry of the enclosing PageWrapper, or null outside of one
+ */
+export function usePageWrapperLayout(): PageWrapperLayout | null {
+  return useContext(PageWrapperContext)
+}
+
+/**
+ * Pages stacked in one column (centered on the first page's width), or
+ * placed at their cells in a spread/grid view
+ */
+function getPageBoxes(pages: PageLayoutDimensions[], grid: PageGrid | null, pageGap: number, width: number): PageBox[] {
+  let top = 0
+  return pages.map((page, index) => {
+    if (grid) {
+      const { row, column } = getPageGridCell(grid, index)
+      return {
+        top: row * (page.page.height + pageGap),
+        left: column * (page.page.width + pageGap),
+        width: page.page.width,
+        height: page.page.height,
+      }
+    }
+    const box = { top, left: (width - page.page.width) / 2, width: page.page.width, height: page.page.height }
+    top += page.page.height + pageGap
+    return box
+  })
+}
+
 export interface PageWrapperProps {
   /**
-   * Page format preset or custom dimensions
+   * Page format preset or custom dimensions (any unit)
    */
-  format?: PageFormatName | { width: number; height: number }
+  format?: PageFormatName | PageSizeLengths
   
   /**
    * Page orientation
@@ -22,9 +105,19 @@ export interface PageWrapperProps {
   orientation?: PageOrientation
   
   /**
-   * Page margins
+   * Page margins (any unit)
    */
-  margins?: Partial<PageMargins>
+  margins?: Partial<PageMarginLengths>
+
+  /**
+   * Mirror margins (even pages are laid out by the Pagination extension)
+   */
+  mirrorMargins?: boolean
+
+  /**
+   * Gutter on the binding edge; widens the left padding of the page
+   */
+  gutter?: Length
   
   /**
    * Children (typically EditorContent)
@@ -72,6 +165,56 @@ export interface PageWrapperProps {
    */
   minScale?: number
 
+  /**
+   * Zoom level (50–400%) or fit mode. Overrides `scale` and `responsive`;
+   * fit modes never go below `minScale`.
+   */
+  zoom?: PageZoom
+
+  /**
+   * Called with the new zoom level after Ctrl+wheel / pinch zoom. Without a
+   * `zoom` prop the wrapper keeps the zoom level itself.
+   */
+  onZoomChange?: (zoom: number) => void
+
+  /**
+   * Zoom with Ctrl+wheel and pinch gestures
+   */
+  wheelZoom?: boolean
+
+  /**
+   * Layout of every page (`editor.storage.pagination.pageLayouts`). When
+   * section breaks give pages different widths, each page is drawn at its own
+   * size, centered on the first page.
+   */
+  pages?: PageLayoutDimensions[]
+
+  /**
+   * Arrange pages side by side (two-page spreads or a grid); must match the
+   * Pagination `viewMode` option / `setViewMode`. Needs `pages`.
+   */
+  viewMode?: PageViewMode
+
+  /**
+   * Pages per row in the `grid` view mode
+   */
+  pagesPerRow?: number
+
+  /**
+   * Gap between pages; must match the Pagination `pageGap` option
+   */
+  pageGap?: number
+
+  /**
+   * Pixels per inch; must match the Pagination `dpi` option
+   */
+  dpi?: number
+
+  /**
+   * Rulers drawn along the pages (`HorizontalRuler`, `VerticalRuler`)
+   */
+  rulers?: React.ReactNode
+
   /**
    * Optional test id for E2E/smoke tests
    */
@@ -95,6 +238,8 @@ export function PageWrapper({
   format = 'Letter',
   orientation = 'portrait',
   margins,
+  mirrorMargins = false,
+  gutter = 0,
   children,
   showShadow = true,
   containerBackground = '#f3f4f6',
@@ -104,28 +249,92 @@ export function PageWrapper({
   scale = 1,
   responsive = true,
   minScale = 0.25,
+  zoom,
+  onZoomChange,
+  wheelZoom = true,
+  pages,
+  viewMode = 'single',
+  pagesPerRow = 3,
+  pageGap = 40,
+  dpi = DEFAULT_DPI,
+  rulers,
   testId,
 }: PageWrapperProps) {
   const containerRef = useRef<HTMLDivElement | null>(null)
   const viewportRef = useRef<HTMLDivElement | null>(null)
   const scaledOuterRef = useRef<HTMLDivElement | null>(null)
   const pageRef = useRef<HTMLDivElement | null>(null)
-  const [fitScale, setFitScale] = useState(1)
+  const [availableSize, setAvailableSize] = useState<{ width: number; height: number } | null>(null)
+  const [gestureZoom, setGestureZoom] = useState<number | null>(null)
   const [unscaledHeight, setUnscaledHeight] = useState(0)
 
   const config: PageConfig = useMemo(() => {
-    return createPageConfig(format, orientation, margins)
-  }, [format, orientation, margins])
+    return createPageConfig(format, orientation, margins, { mirrorMargins, gutter })
+  }, [format, orientation, margins, mirrorMargins, gutter])
 
   const layout = useMemo(() => {
-    return getPageLayoutDimensions(config)
-  }, [config])
+    return getPageLayoutDimensions(config, dpi)
+  }, [config, dpi])
+
+  // Pages of other sections may be wider or narrower than the first one
+  const mixedWidths = useMemo(() => {
+    return !!pages && pages.some(page => page.page.width !== layout.page.width)
+  }, [pages, layout.page.width])
+
+  // Spread/grid views only apply to pages of one size (as in the extension)
+  const grid = useMemo(() => {
+    return pages ? getPageGrid(viewMode, pagesPerRow, pages) : null
+  }, [pages, viewMode, pagesPerRow])
+
+  // Width of the page element: one page, or a row of pages side by side
+  const pageWidth = grid ? grid.columns * layout.page.width + (grid.columns - 1) * pageGap : layout.page.width
+
+  const maxPageWidth = useMemo(() => {
+    if (!pages || !mixedWidths) return pageWidth
+    return Math.max(layout.page.width, ...pages.map(page => page.page.width))
+  }, [pages, mixedWidths, pageWidth, layout.page.width])
+
+  const sheets = useMemo(() => {
+    if (!pages || !(mixedWidths || grid)) return []
+    return getPageBoxes(pages, grid, pageGap, layout.page.width)
+  }, [pages, grid, mixedWidths, pageGap, layout.page.width])
+
+  // A controlled `zoom` wins over gesture zoom
+  const activeZoom = zoom ?? gestureZoom
 
   const effectiveScale = useMemo(() => {
+    const fitWidth = availableSize ? availableSize.width / maxPageWidth : 1
+    if (activeZoom === 'fit-width' || activeZoom === 'fit-page') {
+      const fitPage = availableSize ? availableSize.height / layout.page.height : fitWidth
+      const fit = activeZoom === 'fit-width' ? fitWidth : Math.min(fitWidth, fitPage)
+      return Math.max(minScale, Math.min(MAX_ZOOM, fit))
+    }
+    if (typeof activeZoom === 'number') return clampZoom(activeZoom)
     if (!responsive) return scale
-    const capped = Math.min(scale, fitScale)
+    const capped = Math.min(scale, Math.max(minScale, Math.min(1, fitWidth)))
     return Math.max(minScale, Math.min(1, capped))
-  }, [responsive, scale, fitScale, minScale])
+  }, [activeZoom, availableSize, maxPageWidth, layout.page.height, responsive, scale, minScale])
+
+  const pageWrapperLayout = useMemo<PageWrapperLayout>(() => ({
+    scale: effectiveScale,
+    getPageBoxes: editorPages => getPageBoxes(
+      editorPages,
+      getPageGrid(viewMode, pagesPerRow, editorPages),
+      pageGap,
+      layout.page.width
+    ),
+  }), [effectiveScale, viewMode, pagesPerRow, pageGap, layout.page.width])
+
+  const scaleRef = useRef(effectiveScale)
+  scaleRef.current = effectiveScale
+  const zoomRef = useRef({ zoom, onZoomChange })
+  zoomRef.current = { zoom, onZoomChange }
+
+  const applyGestureZoom = useCallback((next: number) => {
+    const value = clampZoom(Math.round(next * 100) / 100)
+    if (zoomRef.current.zoom === undefined) setGestureZoom(value)
+    zoomRef.current.onZoomChange?.(value)
+  }, [])
 
   // Push dynamic values into CSS variables / element styles (no JSX inline styles).
   useEffect(() => {
@@ -136,14 +345,14 @@ export function PageWrapper({
 
     containerEl.style.setProperty('--page-bg', containerBackground)
     pageEl.style.setProperty('--ctp-page-scale', String(effectiveScale))
-    pageEl.style.setProperty('--ctp-page-width', `${layout.page.width}px`)
+    pageEl.style.setProperty('--ctp-page-width', `${pageWidth}px`)
     pageEl.style.setProperty('--ctp-margin-left', `${layout.margins.left}px`)
     pageEl.style.setProperty('--ctp-margin-right', `${layout.margins.right}px`)
 
     const shadow = showShadow ? '0 10px 10px rgba(0, 0, 0, 0.12)' : 'none'
     pageEl.style.setProperty('--ctp-page-shadow', shadow)
 
-    const scaledWidth = Math.ceil(layout.page.width * effectiveScale)
+    const scaledWidth = Math.ceil(pageWidth * effectiveScale)
     const baseHeight = Math.max(unscaledHeight || layout.page.height, 1)
     const scaledHeight = Math.ceil(baseHeight * effectiveScale)
     scaledOuterEl.style.setProperty('--ctp-scaled-width', `${scaledWidth}px`)
@@ -156,7 +365,7 @@ export function PageWrapper({
   }, [
     containerBackground,
     effectiveScale,
-    layout.page.width,
+    pageWidth,
     layout.page.height,
     layout.margins.left,
     layout.margins.right,
@@ -165,24 +374,66 @@ export function PageWrapper({
     unscaledHeight,
   ])
 
-  // Compute fit-to-width scale when container is narrower than the page.
+  // Measure the space available to the page for responsive scaling and the
+  // fit modes: the viewport width and the visible height of the container.
   useEffect(() => {
-    if (!responsive) return
+    const containerEl = containerRef.current
     const viewportEl = viewportRef.current
-    if (!viewportEl) return
+    if (!containerEl || !viewportEl) return
 
     const update = () => {
-      const available = viewportEl.clientWidth
-      if (!available || !Number.isFinite(available)) return
-      const next = Math.min(1, available / layout.page.width)
-      setFitScale(Math.max(minScale, next))
+      const width = viewportEl.clientWidth
+      if (!width || !Number.isFinite(width)) return
+      const rect = containerEl.getBoundingClientRect()
+      const style = getComputedStyle(containerEl)
+      const padding = (parseFloat(style.paddingTop) || 0) + (parseFloat(style.paddingBottom) || 0)
+      const visibleHeight = Math.min(rect.bottom, window.innerHeight) - Math.max(rect.top, 0)
+      const height = Math.max(visibleHeight - padding, 1)
+      setAvailableSize(prev => (prev && prev.width === width && prev.height === height ? prev : { width, height }))
     }
 
     update()
     const ro = new ResizeObserver(() => update())
     ro.observe(viewportEl)
-    return () => ro.disconnect()
-  }, [responsive, layout.page.width, minScale])
+    window.addEventListener('resize', update)
+    return () => {
+      ro.disconnect()
+      window.removeEventListener('resize', update)
+    }
+  }, [])
+
+  // Ctrl+wheel (and trackpad pinch, reported as Ctrl+wheel) zooms the pages
+  // instead of the browser. Safari reports pinches as gesture events.
+  useEffect(() => {
+    const containerEl = containerRef.current
+    if (!containerEl || !wheelZoom) return
+
+    const onWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return
+      event.preventDefault()
+      const delta = Math.max(-MAX_WHEEL_DELTA, Math.min(MAX_WHEEL_DELTA, event.deltaY))
+      applyGestureZoom(scaleRef.current * Math.exp(-delta * WHEEL_ZOOM_SPEED))
+    }
+
+    let gestureStartScale = 1
+    const onGestureStart = (event: Event) => {
+      event.preventDefault()
+      gestureStartScale = scaleRef.current
+    }
+    const onGestureChange = (event: Event) => {
+      event.preventDefault()
+      applyGestureZoom(gestureStartScale * (event as Event & { scale: number }).scale)
+    }
+
+    containerEl.addEventListener('wheel', onWheel, { passive: false })
+    containerEl.addEventListener('gesturestart', onGestureStart)
+    containerEl.addEventListener('gesturechange', onGestureChange)
+    return () => {
+      containerEl.removeEventListener('wheel', onWheel)
+      containerEl.removeEventListener('gesturestart', onGestureStart)
+      containerEl.removeEventListener('gesturechange', onGestureChange)
+    }
+  }, [wheelZoom, applyGestureZoom])
 
   // Measure unscaled height so we can size the outer wrapper to the scaled height.
   useEffect(() => {
@@ -199,34 +450,62 @@ export function PageWrapper({
     const ro = new ResizeObserver(() => update())
     ro.observe(pageEl)
     return () => ro.disconnect()
-  }, [layout.page.width, layout.margins.left, layout.margins.right])
+  }, [pageWidth, layout.margins.left, layout.margins.right])
 
   // Page visuals:
   // - Full page width with white background
   // - Horizontal padding (left/right margins) for content area
   // - Vertical margins (top/bottom) are rendered by the pagination widgets
+  // - With mixed page widths or pages side by side (spread/grid), one sheet
+  //   per page replaces the page background
+  // - Rulers sit next to the scaled page; they scale their own marks so text
+  //   stays readable at any zoom level
   return (
-    <div
-      ref={containerRef}
-      className={`page-wrapper-container ${containerClassName}`}
-      data-testid={testId}
-    >
-      <div ref={viewportRef} className="page-wrapper-viewport">
-        <div ref={scaledOuterRef} className="page-wrapper-scaled-outer">
-          <div
-            ref={pageRef}
-            className={`page-wrapper-page ${pageClassName}`}
-            data-page-format={typeof format === 'string' ? format : 'custom'}
-            data-page-orientation={orientation}
-            data-page-width={layout.page.width}
-            data-page-height={layout.page.height}
-            data-content-height={layout.content.height}
-          >
-            {children}
+    <PageWrapperContext.Provider value={pageWrapperLayout}>
+      <div
+        ref={containerRef}
+        className={`page-wrapper-container ${rulers ? 'page-wrapper-container-rulers' : ''} ${containerClassName}`}
+        data-testid={testId}
+      >
+        <div ref={viewportRef} className="page-wrapper-viewport">
+          <div ref={scaledOuterRef} className="page-wrapper-scaled-outer">
+            {rulers}
+            <div
+              ref={pageRef}
+              className={`page-wrapper-page ${mixedWidths ? 'page-wrapper-page-mixed' : ''} ${grid ? 'page-wrapper-page-grid' : ''} ${pageClassName}`}
+              data-page-format={typeof format === 'string' ? format : 'custom'}
+              data-page-orientation={orientation}
+              data-mirror-margins={mirrorMargins || undefined}
+              data-page-width={layout.page.width}
+              data-view-mode={grid ? viewMode : undefined}
+              data-page-height={layout.page.height}
+              data-content-height={layout.content.height}
+              data-zoom={Math.round(effectiveScale * 100)}
+            >
+              {(mixedWidths || grid) && (
+                <div className="page-wrapper-sheets" aria-hidden="true">
+                  {sheets.map((sheet, index) => (
+                    <div
+                      key={index}
+                      className="page-wrapper-sheet"
+                      data-page={index + 1}
+                      ref={el => {
+                        if (!el) return
+                        el.style.setProperty('--ctp-sheet-top', `${sheet.top}px`)
+                        el.style.setProperty('--ctp-sheet-left', `${sheet.left}px`)
+                        el.style.setProperty('--ctp-sheet-width', `${sheet.width}px`)
+                        el.style.setProperty('--ctp-sheet-height', `${sheet.height}px`)
+                      }}
+                    />
+                  ))}
+                </div>
+              )}
+              {children}
+            </div>
           </div>
         </div>
       </div>
-    </div>
+    </PageWrapperContext.Provider>
   )
 }
 
@@ -234,15 +513,16 @@ export function PageWrapper({
  * Hook to get current page configuration
  */
 export function usePageConfig(
-  format: PageFormatName | { width: number; height: number } = 'Letter',
+  format: PageFormatName | PageSizeLengths = 'Letter',
   orientation: PageOrientation = 'portrait',
-  margins?: Partial<PageMargins>
+  margins?: Partial<PageMarginLengths>,
+  dpi: number = DEFAULT_DPI
 ) {
   return useMemo(() => {
     const config = createPageConfig(format, orientation, margins)
-    const layout = getPageLayoutDimensions(config)
+    const layout = getPageLayoutDimensions(config, dpi)
     return { config, ...layout }
-  }, [format, orientation, margins])
+  }, [format, orientation, margins, dpi])
 }
 
 export default PageWrapper
@@ -1,10 +1,24 @@
 'use client'
 
-import React, { useCallback, useState, useEffect } from 'react'
+import React, { useCallback, useState, useEffect, useRef } from 'react'
 import { useEditor, EditorContent } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
-import { PageWrapper } from './PageWrapper'
-import { PageBreak, Pagination, PageFormatName, PageOrientation, PageMargins } from '../extensions'
+import { PageWrapper, type PageZoom } from './PageWrapper'
+import { HorizontalRuler, VerticalRuler } from './Ruler'
+import {
+  PageBreak,
+  SectionBreak,
+  Pagination,
+  PageFormatName,
+  PageOrientation,
+  PageMarginLengths,
+  PageConfig,
+  Length,
+  DEFAULT_DPI,
+  PageLayoutDimensions,
+  PageViewMode,
+  RulerUnit,
+} from '../extensions'
 
 export interface PagedEditorProps {
   /**
@@ -13,7 +27,8 @@ export interface PagedEditorProps {
   content?: string | Record<string, unknown>
   
   /**
-   * Page format
+   * Page format. The page setup is stored in the document: these props set
+   * the defaults and are applied (undoably) when they change.
    */
   format?: PageFormatName
   
@@ -23,9 +38,24 @@ export interface PagedEditorProps {
   orientation?: PageOrientation
   
   /**
-   * Page margins
+   * Page margins (any unit, e.g. `{ left: '1.5in' }`)
    */
-  margins?: Partial<PageMargins>
+  margins?: Partial<PageMarginLengths>
+
+  /**
+   * Swap inside/outside margins on even pages (double-sided documents)
+   */
+  mirrorMargins?: boolean
+
+  /**
+   * Extra margin on the binding edge (any unit)
+   */
+  gutter?: Length
+
+  /**
+   * Pixels per inch used to lay out pages (default 96, CSS pixels)
+   */
+  dpi?: number
   
   /**
    * Called when content changes
@@ -36,6 +66,46 @@ export interface PagedEditorProps {
    * Called when page count changes
    */
   onPageCountChange?: (count: number) => void
+
+  /**
+   * Called when the selection head moves to another page
+   */
+  onCurrentPageChange?: (page: number) => void
+
+  /**
+   * Called when another page becomes the most visible one
+   */
+  onVisiblePageChange?: (page: number) => void
+  
+  /**
+   * Show pages side by side: two-page spreads or a grid
+   */
+  viewMode?: PageViewMode
+
+  /**
+   * Pages per row in the `grid` view mode
+   */
+  pagesPerRow?: number
+
+  /**
+   * Zoom level or fit mode (see `PageWrapper`)
+   */
+  zoom?: PageZoom
+
+  /**
+   * Called after Ctrl+wheel / pinch zoom
+   */
+  onZoomChange?: (zoom: number) => void
+
+  /**
+   * Show rulers with draggable margin handles
+   */
+  rulers?: boolean
+
+  /**
+   * Unit of the rulers
+   */
+  rulerUnit?: RulerUnit
   
   /**
    * Whether the editor is editable
@@ -64,13 +134,32 @@ export function PagedEditor({
   format = 'Letter',
   orientation = 'portrait',
   margins,
+  mirrorMargins = false,
+  gutter = 0,
+  dpi = DEFAULT_DPI,
   onUpdate,
   onPageCountChange,
+  onCurrentPageChange,
+  onVisiblePageChange,
+  viewMode = 'single',
+  pagesPerRow = 3,
+  zoom,
+  onZoomChange,
+  rulers = false,
+  rulerUnit = 'in',
   editable = true,
   placeholder = 'Start typing...',
   className = '',
 }: PagedEditorProps) {
   const [pageCount, setPageCount] = useState(1)
+  const [currentPage, setCurrentPage] = useState(1)
+  const [pageLayouts, setPageLayouts] = useState<PageLayoutDimensions[]>()
+  const [pageConfig, setPageConfig] = useState<PageConfig>()
+  const appliedFormat = useRef(format)
+  const appliedOrientation = useRef(orientation)
+  const appliedMargins = useRef(JSON.stringify(margins ?? {}))
+  const appliedMirrorMargins = useRef(mirrorMargins)
+  const appliedGutter = useRef(gutter)
   const [mounted, setMounted] = useState(false)
 
   // SSR safety: only render editor on client
@@ -83,6 +172,11 @@ export function PagedEditor({
     onPageCountChange?.(count)
   }, [onPageCountChange])
 
+  const handleCurrentPageChange = useCallback((page: number) => {
+    setCurrentPage(page)
+    onCurrentPageChange?.(page)
+  }, [onCurrentPageChange])
+
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
@@ -91,14 +185,23 @@ export function PagedEditor({
         },
       }),
       PageBreak,
+      SectionBreak,
       Pagination.configure({
         pageFormat: format,
         orientation,
         margins: margins || {},
+        mirrorMargins,
+        gutter,
+        dpi,
         widowOrphanControl: true,
         minLinesAtBreak: 2,
         pageGap: 40,
         onPageCountChange: handlePageCountChange,
+        onCurrentPageChange: handleCurrentPageChange,
+        onVisiblePageChange,
+        onPageLayoutsChange: setPageLayouts,
+        viewMode,
+        pagesPerRow,
       }),
     ],
     content,
@@ -116,25 +219,58 @@ export function PagedEditor({
     },
   })
 
+  // Follow the document's page setup (loaded content, undo/redo)
+  useEffect(() => {
+    if (!editor) return
+    const syncPageConfig = () => setPageConfig(editor.storage.pagination.pageConfig)
+    syncPageConfig()
+    editor.on('transaction', syncPageConfig)
+    return () => {
+      editor.off('transaction', syncPageConfig)
+    }
+  }, [editor])
+
   // Update editor config when format/orientation changes
   useEffect(() => {
-    if (editor) {
+    if (editor && appliedFormat.current !== format) {
+      appliedFormat.current = format
       editor.commands.setPageFormat(format)
     }
   }, [editor, format])
 
   useEffect(() => {
-    if (editor) {
+    if (editor && appliedOrientation.current !== orientation) {
+      appliedOrientation.current = orientation
       editor.commands.setOrientation(orientation)
     }
   }, [editor, orientation])
 
   useEffect(() => {
-    if (editor && margins) {
+    const key = JSON.stringify(margins ?? {})
+    if (editor && margins && appliedMargins.current !== key) {
+      appliedMargins.current = key
       editor.commands.setMargins(margins)
     }
   }, [editor, margins])
 
+  useEffect(() => {
+    if (editor && appliedMirrorMargins.current !== mirrorMargins) {
+      appliedMirrorMargins.current = mirrorMargins
+      editor.commands.setMirrorMargins(mirrorMargins)
+    }
+  }, [editor, mirrorMargins])
+
+  useEffect(() => {
+    if (editor && appliedGutter.current !== gutter) {
+      appliedGutter.current = gutter
+      editor.commands.setGutter(gutter)
+    }
+  }, [editor, gutter])
+
+  useEffect(() => {
+    editor?.commands.setViewMode(viewMode, pagesPerRow)
+  }, [editor, viewMode, pagesPerRow])
+
   // SSR safety
   if (!mounted) {
     return (
@@ -147,16 +283,31 @@ export function PagedEditor({
   return (
     <div className="paged-editor">
       <PageWrapper
-        format={format}
-        orientation={orientation}
-        margins={margins}
+        format={pageConfig?.format ?? format}
+        orientation={pageConfig?.orientation ?? orientation}
+        margins={pageConfig?.margins ?? margins}
+        mirrorMargins={pageConfig ? !!pageConfig.mirrorMargins : mirrorMargins}
+        gutter={pageConfig ? pageConfig.gutter ?? 0 : gutter}
+        pages={pageLayouts}
+        pageGap={40}
+        dpi={dpi}
+        viewMode={viewMode}
+        pagesPerRow={pagesPerRow}
+        zoom={zoom}
+        onZoomChange={onZoomChange}
+        rulers={rulers && (
+          <>
+            <HorizontalRuler editor={editor} unit={rulerUnit} dpi={dpi} />
+            <VerticalRuler editor={editor} unit={rulerUnit} dpi={dpi} />
+          </>
+        )}
       >
         <EditorContent editor={editor} />
       </PageWrapper>
       
-      {/* Page count indicator */}
+      {/* Current page indicator */}
       <div className="fixed bottom-4 right-4 bg-white rounded-lg shadow-lg px-4 py-2 text-sm text-gray-600">
-        {pageCount} {pageCount === 1 ? 'page' : 'pages'}
+        Page {Math.min(currentPage, pageCount)} of {pageCount}
       </div>
     </div>
   )
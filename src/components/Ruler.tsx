@@ -0,0 +1,328 @@
+'use client'
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import type { Editor } from '@tiptap/core'
+import {
+  DEFAULT_DPI,
+  Length,
+  MarginHandle,
+  PageLayoutDimensions,
+  PageMarginLengths,
+  PageMargins,
+  RulerAxis,
+  RulerUnit,
+  SECTION_BREAK_NODE,
+  getDraggedMargin,
+  getMarginHandles,
+  getRulerSnap,
+  getRulerTicks,
+  lengthToPixels,
+  toPixels,
+} from '../extensions'
+import { usePageWrapperLayout, type PageBox } from './PageWrapper'
+
+export interface RulerProps {
+  /**
+   * Editor with the Pagination extension
+   */
+  editor: Editor | null
+
+  /**
+   * Unit of the labels and of the margins set by dragging
+   */
+  unit?: RulerUnit
+
+  /**
+   * Snap dragged margins to 1/8 in or 0.25 cm (hold Alt to drag freely)
+   */
+  snap?: boolean
+
+  /**
+   * Pixels per inch; must match the Pagination `dpi` option
+   */
+  dpi?: number
+
+  /**
+   * Called with the new margin after a handle was dropped or moved with the
+   * arrow keys
+   */
+  onMarginsChange?: (margins: Partial<PageMarginLengths>) => void
+
+  /**
+   * Additional class names for the ruler
+   */
+  className?: string
+
+  /**
+   * Optional test id for E2E/smoke tests
+   */
+  testId?: string
+}
+
+interface RulerSnapshot {
+  /** 1-based page with the selection */
+  page: number
+  pageLayouts: PageLayoutDimensions[]
+  /** Whether the page is laid out with the document margins */
+  editable: boolean
+}
+
+interface RulerDrag {
+  side: keyof PageMargins
+  margin: Length
+}
+
+const SIDE_LABELS: Record<keyof PageMargins, string> = {
+  top: 'Top margin',
+  right: 'Right margin',
+  bottom: 'Bottom margin',
+  left: 'Left margin',
+}
+
+const ARROW_STEPS: Record<RulerAxis, Record<string, number>> = {
+  horizontal: { ArrowLeft: -1, ArrowRight: 1 },
+  vertical: { ArrowUp: -1, ArrowDown: 1 },
+}
+
+function createSnapshot(editor: Editor): RulerSnapshot {
+  const { currentPage, pageLayouts, pageRanges } = editor.storage.pagination
+  const page = Math.min(currentPage, pageLayouts.length)
+  const from = pageRanges[page - 1]?.from ?? 0
+  // Pages after a section break use the section's page setup
+  let editable = editor.isEditable
+  editor.state.doc.forEach((node, offset) => {
+    if (offset < from && node.type.name === SECTION_BREAK_NODE) editable = false
+  })
+  return { page, pageLayouts, editable }
+}
+
+function sameSnapshot(a: RulerSnapshot | null, b: RulerSnapshot): boolean {
+  return !!a && a.page === b.page && a.pageLayouts === b.pageLayouts && a.editable === b.editable
+}
+
+/**
+ * Position of a handle (page pixels from the left/top edge) for a margin
+ */
+function getHandlePosition(layout: PageLayoutDimensions, handle: MarginHandle, margin: Length, dpi: number): number {
+  const distance = handle.offset + toPixels(margin, dpi)
+  if (handle.side === 'left' || handle.side === 'top') return distance
+  return (handle.side === 'right' ? layout.page.width : layout.page.height) - distance
+}
+
+/**
+ * Margin of a handle in ruler units, for labels
+ */
+function getHandleValue(layout: PageLayoutDimensions, handle: MarginHandle, unit: RulerUnit, dpi: number): number {
+  const size = handle.side === 'left' || handle.side === 'right' ? layout.page.width : layout.page.height
+  const distance = handle.side === 'left' || handle.side === 'top' ? handle.position : size - handle.position
+  return Math.round((distance - handle.offset) / lengthToPixels(1, unit, dpi) * 100) / 100
+}
+
+/**
+ * Ruler along one edge of the page with the selection. Margin handles call
+ * `setMargins` while they are dragged; the undo history gets one step per
+ * drag. Pages of a section with its own page setup are shown read-only.
+ *
+ * Inside a PageWrapper (`rulers` prop) the ruler follows the zoom level and
+ * the position of the page; elsewhere it is drawn at 100%.
+ */
+function Ruler({
+  editor,
+  axis,
+  unit = 'in',
+  snap = true,
+  dpi = DEFAULT_DPI,
+  onMarginsChange,
+  className = '',
+  testId,
+}: RulerProps & { axis: RulerAxis }) {
+  const wrapper = usePageWrapperLayout()
+  const rulerRef = useRef<HTMLDivElement | null>(null)
+  const [snapshot, setSnapshot] = useState<RulerSnapshot | null>(null)
+  const [drag, setDrag] = useState<RulerDrag | null>(null)
+  const onMarginsChangeRef = useRef(onMarginsChange)
+  onMarginsChangeRef.current = onMarginsChange
+
+  useEffect(() => {
+    if (!editor) return
+    const sync = () => {
+      if (editor.isDestroyed) return
+      const next = createSnapshot(editor)
+      setSnapshot(prev => (sameSnapshot(prev, next) ? prev : next))
+    }
+    sync()
+    editor.on('transaction', sync)
+    return () => {
+      editor.off('transaction', sync)
+    }
+  }, [editor])
+
+  const scale = wrapper?.scale ?? 1
+  const layout = snapshot ? snapshot.pageLayouts[snapshot.page - 1] : null
+
+  const box = useMemo<PageBox | null>(() => {
+    if (!snapshot || !layout) return null
+    if (!wrapper) return { top: 0, left: 0, width: layout.page.width, height: layout.page.height }
+    return wrapper.getPageBoxes(snapshot.pageLayouts)[snapshot.page - 1]
+  }, [snapshot, layout, wrapper])
+
+  const length = layout ? (axis === 'horizontal' ? layout.page.width : layout.page.height) : 0
+  const ticks = useMemo(() => getRulerTicks(length, unit, dpi), [length, unit, dpi])
+
+  const handles = useMemo(() => {
+    if (!snapshot || !layout) return []
+    return getMarginHandles(layout, snapshot.page, axis).map(handle => {
+      if (drag?.side !== handle.side) return handle
+      return { ...handle, position: getHandlePosition(layout, handle, drag.margin, dpi) }
+    })
+  }, [snapshot, layout, axis, drag, dpi])
+
+  // Push dynamic values into CSS variables (no JSX inline styles)
+  useEffect(() => {
+    const rulerEl = rulerRef.current
+    if (!rulerEl || !box || handles.length < 2) return
+    const horizontal = axis === 'horizontal'
+    rulerEl.style.setProperty('--ctp-ruler-offset', `${(horizontal ? box.left : box.top) * scale}px`)
+    rulerEl.style.setProperty('--ctp-ruler-cross-offset', `${(horizontal ? box.top : box.left) * scale}px`)
+    rulerEl.style.setProperty('--ctp-ruler-length', `${length * scale}px`)
+    rulerEl.style.setProperty('--ctp-ruler-margin-start', `${handles[0].position * scale}px`)
+    rulerEl.style.setProperty('--ctp-ruler-margin-end', `${(length - handles[1].position) * scale}px`)
+  }, [axis, box, handles, length, scale])
+
+  if (!editor || !snapshot || !layout) return null
+
+  const { page, editable } = snapshot
+
+  const commitMargin = (handle: MarginHandle, margin: Length) => {
+    if (!editor.commands.setMargins({ [handle.margin]: margin })) return
+    onMarginsChangeRef.current?.({ [handle.margin]: margin })
+  }
+
+  const startDrag = (event: React.PointerEvent<HTMLDivElement>, handle: MarginHandle) => {
+    if (!editable || event.button !== 0) return
+    event.preventDefault()
+    const handleEl = event.currentTarget
+    handleEl.setPointerCapture(event.pointerId)
+    handleEl.focus()
+
+    const original = editor.storage.pagination.pageConfig.margins[handle.margin]
+    const startClient = axis === 'horizontal' ? event.clientX : event.clientY
+    let current = original
+
+    const onMove = (moveEvent: PointerEvent) => {
+      const client = axis === 'horizontal' ? moveEvent.clientX : moveEvent.clientY
+      const position = handle.position + (client - startClient) / scale
+      const margin = getDraggedMargin(layout, page, handle, position, unit, { snap: snap && !moveEvent.altKey, dpi })
+      // Live preview, kept out of the undo history until the handle is dropped
+      if (margin !== current && editor.chain().setMeta('addToHistory', false).setMargins({ [handle.margin]: margin }).run()) {
+        current = margin
+      }
+      setDrag({ side: handle.side, margin: current })
+    }
+
+    const endDrag = () => {
+      handleEl.removeEventListener('pointermove', onMove)
+      handleEl.removeEventListener('pointerup', onDrop)
+      handleEl.removeEventListener('pointercancel', onCancel)
+      setDrag(null)
+      if (current === original) return false
+      editor.chain().setMeta('addToHistory', false).setMargins({ [handle.margin]: original }).run()
+      return true
+    }
+
+    const onDrop = () => {
+      if (endDrag()) commitMargin(handle, current)
+    }
+
+    // A cancelled drag only restores the original margin
+    const onCancel = () => {
+      endDrag()
+    }
+
+    handleEl.addEventListener('pointermove', onMove)
+    handleEl.addEventListener('pointerup', onDrop)
+    handleEl.addEventListener('pointercancel', onCancel)
+  }
+
+  const onHandleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>, handle: MarginHandle) => {
+    const direction = ARROW_STEPS[axis][event.key]
+    if (!editable || !direction) return
+    event.preventDefault()
+    const step = lengthToPixels(getRulerSnap(unit), unit, dpi)
+    commitMargin(handle, getDraggedMargin(layout, page, handle, handle.position + direction * step, unit, { snap, dpi }))
+  }
+
+  return (
+    <div
+      ref={rulerRef}
+      className={`page-ruler page-ruler-${axis} ${className}`}
+      data-page={page}
+      data-unit={unit}
+      data-testid={testId}
+    >
+      <span className="page-ruler-unit" aria-hidden="true">{unit}</span>
+      <div className="page-ruler-scale" aria-hidden="true">
+        {ticks.map(tick => (
+          <span
+            key={tick.position}
+            className={`page-ruler-tick page-ruler-tick-${tick.kind}`}
+            ref={el => {
+              el?.style.setProperty('--ctp-ruler-position', `${tick.position * scale}px`)
+            }}
+          >
+            {tick.kind === 'major' && tick.value > 0 && <span className="page-ruler-label">{tick.value}</span>}
+          </span>
+        ))}
+      </div>
+      {handles.map(handle => {
+        const value = getHandleValue(layout, handle, unit, dpi)
+        return (
+          <div
+            key={handle.side}
+            role="slider"
+            tabIndex={editable ? 0 : -1}
+            className={`page-ruler-handle page-ruler-handle-${handle.side}`}
+            aria-label={SIDE_LABELS[handle.side]}
+            aria-orientation={axis}
+            aria-valuemin={0}
+            aria-valuenow={value}
+            aria-valuetext={`${value} ${unit}`}
+            aria-disabled={!editable || undefined}
+            title={`${SIDE_LABELS[handle.side]}: ${value} ${unit}`}
+            ref={el => {
+              el?.style.setProperty('--ctp-ruler-position', `${handle.position * scale}px`)
+            }}
+            onPointerDown={event => startDrag(event, handle)}
+            onKeyDown={event => onHandleKeyDown(event, handle)}
+          >
+            {drag?.side === handle.side && (
+              <span className="page-ruler-handle-value">{value} {unit}</span>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+/**
+ * HorizontalRuler Component
+ *
+ * Ruler above the page with the selection, with handles for the left and
+ * right margins. Pass it to PageWrapper's `rulers` prop to align it with the
+ * page at the current zoom level.
+ */
+export function HorizontalRuler(props: RulerProps) {
+  return <Ruler {...props} axis="horizontal" />
+}
+
+/**
+ * VerticalRuler Component
+ *
+ * Ruler next to the page with the selection, with handles for the top and
+ * bottom margins. Pass it to PageWrapper's `rulers` prop to align it with the
+ * page at the current zoom level.
+ */
+export function VerticalRuler(props: RulerProps) {
+  return <Ruler {...props} axis="vertical" />
+}
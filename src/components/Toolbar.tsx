@@ -1,7 +1,8 @@
 'use client'
 
-import React from 'react'
-import { PageFormatName, PageOrientation, PAGE_FORMATS } from '../extensions'
+import React, { useEffect, useState } from 'react'
+import { PageFormatName, PageOrientation, PageViewMode, RulerUnit, getPageFormats, supportsPageRows } from '../extensions'
+import { ZOOM_PRESETS, type PageZoom } from './PageWrapper'
 
 export interface ToolbarProps {
   format: PageFormatName
@@ -10,7 +11,21 @@ export interface ToolbarProps {
   onFormatChange: (format: PageFormatName) => void
   onOrientationChange: (orientation: PageOrientation) => void
   onInsertPageBreak?: () => void
+  onInsertSectionBreak?: () => void
   onPrint?: () => void
+  /** Current zoom level; the zoom control is shown with `onZoomChange` */
+  zoom?: PageZoom
+  onZoomChange?: (zoom: PageZoom) => void
+  /** Current view mode; the view control is shown with `onViewModeChange` */
+  viewMode?: PageViewMode
+  onViewModeChange?: (viewMode: PageViewMode) => void
+  /** Current ruler unit; the unit control is shown with `onRulerUnitChange` */
+  rulerUnit?: RulerUnit
+  onRulerUnitChange?: (unit: RulerUnit) => void
+}
+
+function formatZoom(zoom: number): string {
+  return `${Math.round(zoom * 100)}%`
 }
 
 /**
@@ -25,8 +40,26 @@ export function Toolbar({
   onFormatChange,
   onOrientationChange,
   onInsertPageBreak,
+  onInsertSectionBreak,
   onPrint,
+  zoom = 1,
+  onZoomChange,
+  viewMode = 'single',
+  onViewModeChange,
+  rulerUnit = 'in',
+  onRulerUnitChange,
 }: ToolbarProps) {
+  // Gesture zoom can pick levels between the presets
+  const zoomLevels = typeof zoom === 'number' && !ZOOM_PRESETS.includes(zoom)
+    ? [...ZOOM_PRESETS, zoom].sort((a, b) => a - b)
+    : ZOOM_PRESETS
+
+  // Checked after mounting, so the server render matches the first client render
+  const [pageRows, setPageRows] = useState(false)
+  useEffect(() => {
+    setPageRows(supportsPageRows())
+  }, [])
+
   return (
     <div className="toolbar bg-white border-b border-gray-200 px-3 sm:px-4 py-2 flex flex-wrap items-center gap-2 sm:gap-4 sticky top-0 z-50">
       {/* Page Format Selector */}
@@ -40,9 +73,9 @@ export function Toolbar({
           onChange={(e) => onFormatChange(e.target.value as PageFormatName)}
           className="block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm max-w-[12rem] sm:max-w-none"
         >
-          {Object.entries(PAGE_FORMATS).map(([key, value]) => (
-            <option key={key} value={key}>
-              {value.description}
+          {getPageFormats().map((pageFormat) => (
+            <option key={pageFormat.name} value={pageFormat.name}>
+              {pageFormat.description}
             </option>
           ))}
         </select>
@@ -81,6 +114,20 @@ export function Toolbar({
         </button>
       )}
 
+      {/* Section Break Button */}
+      {onInsertSectionBreak && (
+        <button
+          onClick={onInsertSectionBreak}
+          className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          title="Insert Section Break (next section in the other orientation)"
+        >
+          <svg className="w-4 h-4 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 9h16M4 15h16" />
+          </svg>
+          Section Break
+        </button>
+      )}
+
       {/* Print Button */}
       {onPrint && (
         <button
@@ -95,6 +142,70 @@ export function Toolbar({
         </button>
       )}
 
+      {/* Zoom Selector */}
+      {onZoomChange && (
+        <div className="flex items-center gap-2">
+          <label htmlFor="zoom-select" className="text-sm font-medium text-gray-700">
+            Zoom:
+          </label>
+          <select
+            id="zoom-select"
+            value={String(zoom)}
+            onChange={(e) => {
+              const value = e.target.value
+              onZoomChange(value === 'fit-width' || value === 'fit-page' ? value : parseFloat(value))
+            }}
+            className="block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+          >
+            {zoomLevels.map((level) => (
+              <option key={level} value={String(level)}>
+                {formatZoom(level)}
+              </option>
+            ))}
+            <option value="fit-width">Fit width</option>
+            <option value="fit-page">Fit page</option>
+          </select>
+        </div>
+      )}
+
+      {/* View Mode Selector */}
+      {onViewModeChange && (
+        <div className="flex items-center gap-2">
+          <label htmlFor="view-mode-select" className="text-sm font-medium text-gray-700">
+            View:
+          </label>
+          <select
+            id="view-mode-select"
+            value={viewMode}
+            onChange={(e) => onViewModeChange(e.target.value as PageViewMode)}
+            title={pageRows ? undefined : 'This browser can\'t show pages side by side'}
+            className="block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+          >
+            <option value="single">Single page</option>
+            <option value="spread" disabled={!pageRows}>Two-page spread</option>
+            <option value="grid" disabled={!pageRows}>Multiple pages</option>
+          </select>
+        </div>
+      )}
+
+      {/* Ruler Unit Selector */}
+      {onRulerUnitChange && (
+        <div className="flex items-center gap-2">
+          <label htmlFor="ruler-unit-select" className="text-sm font-medium text-gray-700">
+            Ruler:
+          </label>
+          <select
+            id="ruler-unit-select"
+            value={rulerUnit}
+            onChange={(e) => onRulerUnitChange(e.target.value as RulerUnit)}
+            className="block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+          >
+            <option value="in">Inches</option>
+            <option value="cm">Centimeters</option>
+          </select>
+        </div>
+      )}
+
       {/* Spacer */}
       <div className="flex-1" />
 
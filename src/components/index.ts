@@ -1,3 +1,16 @@
-export { PageWrapper, usePageConfig } from './PageWrapper'
+export {
+  PageWrapper,
+  usePageConfig,
+  clampZoom,
+  MIN_ZOOM,
+  MAX_ZOOM,
+  ZOOM_PRESETS,
+  usePageWrapperLayout,
+  type PageZoom,
+  type PageBox,
+  type PageWrapperLayout,
+} from './PageWrapper'
 export { PagedEditor, usePagedEditor } from './PagedEditor'
 export { Toolbar } from './Toolbar'
+export { PageNavigator } from './PageNavigator'
+export { HorizontalRuler, VerticalRuler, type RulerProps } from './Ruler'
@@ -0,0 +1,292 @@
+/**
+ * Header / Footer Utility
+ *
+ * Running headers and footers are stored on the document node (so they are
+ * saved with `editor.getJSON()` and go through history) and rendered into the
+ * pagination overlay widgets of every page.
+ *
+ * Each area has three slots (left / center / right) holding a small subset of
+ * rich text HTML: bold, italics, underline, links, line breaks and images
+ * (e.g. a firm logo).
+ *
+ * Besides the default content, a document can carry a first-page variant
+ * (letterhead) and an even-page variant (mirrored layouts for bound documents).
+ */
+
+import type { EditorView } from '@tiptap/pm/view'
+
+export type HeaderFooterArea = 'header' | 'footer'
+export type HeaderFooterSlot = 'left' | 'center' | 'right'
+/** `default` is used for every page (odd pages when odd/even differ) */
+export type HeaderFooterVariant = 'default' | 'first' | 'even'
+
+/** HTML content per slot */
+export type HeaderFooterContent = Partial<Record<HeaderFooterSlot, string>>
+
+export const HEADER_FOOTER_SLOTS: HeaderFooterSlot[] = ['left', 'center', 'right']
+
+/** Document attributes holding the running header/footer */
+export const PAGE_HEADER_ATTR = 'pageHeader'
+export const PAGE_FOOTER_ATTR = 'pageFooter'
+export const FIRST_PAGE_HEADER_ATTR = 'firstPageHeader'
+export const FIRST_PAGE_FOOTER_ATTR = 'firstPageFooter'
+export const EVEN_PAGE_HEADER_ATTR = 'evenPageHeader'
+export const EVEN_PAGE_FOOTER_ATTR = 'evenPageFooter'
+
+export const HEADER_FOOTER_ATTRS: Record<HeaderFooterVariant, Record<HeaderFooterArea, string>> = {
+  default: { header: PAGE_HEADER_ATTR, footer: PAGE_FOOTER_ATTR },
+  first: { header: FIRST_PAGE_HEADER_ATTR, footer: FIRST_PAGE_FOOTER_ATTR },
+  even: { header: EVEN_PAGE_HEADER_ATTR, footer: EVEN_PAGE_FOOTER_ATTR },
+}
+
+export interface HeaderFooterModes {
+  /** Page 1 uses the `first` variant */
+  differentFirstPage: boolean
+  /** Even pages use the `even` variant */
+  differentOddEven: boolean
+}
+
+export const HEADER_FOOTER_SLOT_CLASS = 'ctp-pages-hf-slot'
+export const HEADER_FOOTER_EDITABLE_CLASS = 'ctp-pages-hf-editable'
+export const HEADER_FOOTER_EDITING_CLASS = 'ctp-pages-hf-editing'
+
+const ALLOWED_TAGS: Record<string, string[]> = {
+  STRONG: [],
+  B: [],
+  EM: [],
+  I: [],
+  U: [],
+  S: [],
+  SMALL: [],
+  SUB: [],
+  SUP: [],
+  BR: [],
+  SPAN: [],
+  A: ['href', 'title', 'target'],
+  IMG: ['src', 'alt', 'width', 'height'],
+}
+
+const SAFE_URL = /^(https?:|mailto:|tel:|#|\/(?!\/))/i
+const SAFE_IMAGE_URL = /^(https?:|data:image\/(png|gif|jpe?g|webp);|\/(?!\/))/i
+
+/**
+ * Reduce header/footer HTML to the supported inline formatting.
+ * Unknown elements are unwrapped (their text is kept), unsafe URLs dropped.
+ */
+export function sanitizeHeaderFooterHtml(html: string): string {
+  if (!html) return ''
+  if (typeof document === 'undefined') return escapeHtml(html.replace(/<[^>]*>/g, ''))
+
+  const template = document.createElement('template')
+  template.innerHTML = html
+  sanitizeChildren(template.content)
+  return template.innerHTML.trim()
+}
+
+function sanitizeChildren(parent: ParentNode) {
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === 3) continue // text
+    if (child.nodeType !== 1) {
+      child.parentNode?.removeChild(child)
+      continue
+    }
+
+    const el = child as Element
+    const allowed = ALLOWED_TAGS[el.tagName.toUpperCase()]
+    if (!allowed) {
+      if (el.tagName === 'SCRIPT' || el.tagName === 'STYLE') {
+        el.remove()
+        continue
+      }
+      sanitizeChildren(el)
+      el.replaceWith(...Array.from(el.childNodes))
+      continue
+    }
+
+    for (const attr of Array.from(el.attributes)) {
+      const name = attr.name.toLowerCase()
+      const value = attr.value.trim()
+      const keep =
+        allowed.includes(name) &&
+        (name !== 'href' || SAFE_URL.test(value)) &&
+        (name !== 'src' || SAFE_IMAGE_URL.test(value))
+      if (!keep) el.removeAttribute(attr.name)
+    }
+    if (el.tagName === 'A' && el.getAttribute('target') === '_blank') {
+      el.setAttribute('rel', 'noopener noreferrer')
+    }
+
+    sanitizeChildren(el)
+  }
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Normalize a header/footer attribute value (may come from untrusted JSON).
+ */
+export function normalizeHeaderFooterContent(value: unknown): HeaderFooterContent {
+  if (!value || typeof value !== 'object') return {}
+  const content: HeaderFooterContent = {}
+  for (const slot of HEADER_FOOTER_SLOTS) {
+    const html = (value as Record<string, unknown>)[slot]
+    if (typeof html === 'string' && html.trim()) content[slot] = html
+  }
+  return content
+}
+
+/**
+ * Apply a partial slot update. Empty strings clear a slot.
+ */
+export function mergeHeaderFooterContent(current: unknown, update: HeaderFooterContent): HeaderFooterContent {
+  const next: HeaderFooterContent = { ...normalizeHeaderFooterContent(current) }
+  for (const slot of HEADER_FOOTER_SLOTS) {
+    const html = update[slot]
+    if (html === undefined) continue
+    if (html.trim()) next[slot] = html
+    else delete next[slot]
+  }
+  return next
+}
+
+/**
+ * Normalize and sanitize a header/footer attribute value for rendering.
+ */
+export function resolveHeaderFooterContent(value: unknown): HeaderFooterContent {
+  const content = normalizeHeaderFooterContent(value)
+  for (const slot of HEADER_FOOTER_SLOTS) {
+    const html = content[slot]
+    if (html !== undefined) content[slot] = sanitizeHeaderFooterHtml(html)
+  }
+  return content
+}
+
+/**
+ * Pick the header/footer variant for a 1-based page number.
+ */
+export function getHeaderFooterVariant(pageNumber: number, modes: HeaderFooterModes): HeaderFooterVariant {
+  if (modes.differentFirstPage && pageNumber === 1) return 'first'
+  if (modes.differentOddEven && pageNumber % 2 === 0) return 'even'
+  return 'default'
+}
+
+/**
+ * Short, stable key for header/footer content. Used in widget decoration keys
+ * so overlays are rebuilt when the content changes.
+ */
+export function getHeaderFooterKey(...contents: unknown[]): string {
+  const text = JSON.stringify(contents)
+  let hash = 5381
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0
+  }
+  return (hash >>> 0).toString(36)
+}
+
+/**
+ * In-place editing
+ *
+ * Double-clicking a slot in any page's header/footer turns it into a small
+ * contenteditable island. Changes apply to every page using the same
+ * variant. The overlay widgets use `stopEvent`/`ignoreSelection` so
+ * ProseMirror leaves events and selection inside them alone.
+ *
+ * - Mod-B / Mod-I / Mod-U: bold, italic, underline
+ * - Mod-K: insert/edit link
+ * - Enter or blur: save, Shift-Enter: line break, Escape: cancel
+ */
+export function enableHeaderFooterEditing(root: HTMLElement, view: EditorView) {
+  root.classList.add(HEADER_FOOTER_EDITABLE_CLASS)
+  root.addEventListener('dblclick', event => {
+    if (!view.editable) return
+    const target = event.target as HTMLElement | null
+    const slotEl = target?.closest<HTMLElement>('.' + HEADER_FOOTER_SLOT_CLASS)
+    if (!slotEl || !root.contains(slotEl)) return
+    if (slotEl.classList.contains(HEADER_FOOTER_EDITING_CLASS)) return
+
+    event.preventDefault()
+    startEditing(slotEl, view)
+  })
+}
+
+function startEditing(slotEl: HTMLElement, view: EditorView) {
+  const area = slotEl.dataset.ctpArea as HeaderFooterArea | undefined
+  const slot = slotEl.dataset.ctpSlot as HeaderFooterSlot | undefined
+  const variant = (slotEl.dataset.ctpVariant as HeaderFooterVariant | undefined) ?? 'default'
+  const attr = area && HEADER_FOOTER_ATTRS[variant]?.[area]
+  if (!area || !slot || !attr) return
+
+  const stored = normalizeHeaderFooterContent(view.state.doc.attrs[attr])
+  const originalHtml = slotEl.innerHTML
+  let finished = false
+  let prompting = false
+
+  slotEl.innerHTML = sanitizeHeaderFooterHtml(stored[slot] ?? '')
+  slotEl.classList.add(HEADER_FOOTER_EDITING_CLASS)
+  slotEl.contentEditable = 'true'
+  slotEl.style.userSelect = 'text'
+  slotEl.focus()
+
+  const finish = (save: boolean) => {
+    if (finished) return
+    finished = true
+    slotEl.removeEventListener('keydown', onKeyDown)
+    slotEl.removeEventListener('blur', onBlur)
+    slotEl.contentEditable = 'false'
+    slotEl.classList.remove(HEADER_FOOTER_EDITING_CLASS)
+    slotEl.style.userSelect = ''
+
+    const html = sanitizeHeaderFooterHtml(slotEl.innerHTML)
+    const current = view.state.doc.attrs[attr]
+    if (!save || view.isDestroyed || html === (normalizeHeaderFooterContent(current)[slot] ?? '')) {
+      slotEl.innerHTML = originalHtml
+      return
+    }
+
+    view.dispatch(view.state.tr.setDocAttribute(attr, mergeHeaderFooterContent(current, { [slot]: html })))
+  }
+
+  const onBlur = () => {
+    if (!prompting) finish(true)
+  }
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    const mod = event.metaKey || event.ctrlKey
+    const key = event.key.toLowerCase()
+
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      finish(false)
+    } else if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault()
+      finish(true)
+    } else if (event.key === 'Enter' && event.shiftKey) {
+      event.preventDefault()
+      document.execCommand('insertLineBreak')
+    } else if (mod && (key === 'b' || key === 'i' || key === 'u')) {
+      event.preventDefault()
+      document.execCommand(key === 'b' ? 'bold' : key === 'i' ? 'italic' : 'underline')
+    } else if (mod && key === 'k') {
+      event.preventDefault()
+      prompting = true
+      const href = window.prompt('Link URL')
+      prompting = false
+      slotEl.focus()
+      if (href === null) return
+      if (!href.trim()) {
+        document.execCommand('unlink')
+      } else if (SAFE_URL.test(href.trim())) {
+        document.execCommand('createLink', false, href.trim())
+      }
+    }
+  }
+
+  slotEl.addEventListener('keydown', onKeyDown)
+  slotEl.addEventListener('blur', onBlur)
+}
@@ -5,7 +5,27 @@
  * similar to word processors, supporting legal document formats.
  */
 
-export { PageBreak } from './page-break'
+export {
+  PageBreak,
+  PAGE_BREAK_NODE,
+  PAGE_BREAK_TYPES,
+  normalizePageBreakType,
+  getPageBreakLabel,
+  hasPageBreakBefore,
+  hasKeepWithNext,
+  hasKeepTogether,
+  type PageBreakOptions,
+  type PageBreakType,
+} from './page-break'
+export {
+  SectionBreak,
+  SECTION_BREAK_NODE,
+  getSectionPageConfig,
+  getSectionPageConfigs,
+  resolveSectionPageConfig,
+  type SectionBreakOptions,
+  type SectionPageConfig,
+} from './section-break'
 export {
   Pagination,
   paginationPluginKey,
@@ -21,33 +41,144 @@ export {
   LAST_PAGE_FILLER_CLASS,
   BREAKER_SPACER_CLASS,
   BREAKER_CONTAINER_CLASS,
+  BLOCK_PUSH_SPACER_CLASS,
+  TABLE_ROW_SPACER_CLASS,
+  REPEATED_HEADER_ROW_CLASS,
+  // Page setup doc attributes
+  PAGE_FORMAT_ATTR,
+  PAGE_ORIENTATION_ATTR,
+  PAGE_MARGINS_ATTR,
+  PAGE_MIRROR_MARGINS_ATTR,
+  PAGE_GUTTER_ATTR,
+  getDocumentPageConfig,
   // Types
   type PaginationOptions,
   type PaginationStorage,
+  type PageRange,
+  type GoToPageOptions,
   type PageNumberDisplayOptions,
+  type HeaderFooterRenderContent,
 } from './pagination'
+export {
+  // Types
+  type PrintPageRulesOptions,
+  // Constants
+  PRINT_STYLES_ID,
+  // Utilities
+  createPrintPageRules,
+  getPrintStylesId,
+  getSectionPageName,
+  headerFooterHtmlToText,
+} from './print-styles'
 export {
   // Types
   type PageFormatName,
+  type BuiltInPageFormatName,
+  type CustomPageFormats,
+  type PageFormatDefinition,
+  type Length,
+  type LengthUnit,
+  type PageSizeLengths,
+  type PageMarginLengths,
   type PageOrientation,
   type PageDimensions,
   type PageMargins,
   type PageFormat,
   type PageConfig,
+  type PageBinding,
   type PageLayoutDimensions,
+  type PageViewMode,
+  type PageGrid,
   // Constants
   PAGE_FORMATS,
+  DEFAULT_DPI,
+  PAGE_VIEW_MODES,
   // Utilities
+  registerPageFormat,
+  unregisterPageFormat,
+  isBuiltInPageFormat,
+  getPageFormats,
+  parseLength,
+  createLength,
+  toPixels,
+  convertLength,
   inchesToPixels,
   cmToPixels,
+  mmToPixels,
+  pointsToPixels,
+  lengthToPixels,
+  getPageSizeDimensions,
+  getMarginPixels,
+  marginsFitPage,
   pixelsToInches,
   pixelsToCm,
+  pixelsToPoints,
   getPageDimensions,
   getDefaultMargins,
+  normalizePageFormat,
+  normalizePageMargins,
   getWritableArea,
   createPageConfig,
   getEffectiveDimensions,
   getPageLayoutDimensions,
+  getPageMargins,
+  isMirroredPage,
   calculatePageCount,
   getPageBreakPositions,
+  getPageGrid,
+  getPageGridCell,
+  supportsPageRows,
 } from './page-format'
+export {
+  // Types
+  type RulerUnit,
+  type RulerAxis,
+  type RulerTick,
+  type MarginHandle,
+  // Constants
+  RULER_UNITS,
+  MIN_CONTENT_SIZE,
+  // Utilities
+  getRulerTicks,
+  getRulerSnap,
+  getMarginHandles,
+  getDraggedMargin,
+} from './ruler'
+export {
+  // Types
+  type HeaderFooterArea,
+  type HeaderFooterSlot,
+  type HeaderFooterContent,
+  type HeaderFooterVariant,
+  type HeaderFooterModes,
+  // Constants
+  HEADER_FOOTER_SLOTS,
+  HEADER_FOOTER_ATTRS,
+  PAGE_HEADER_ATTR,
+  PAGE_FOOTER_ATTR,
+  FIRST_PAGE_HEADER_ATTR,
+  FIRST_PAGE_FOOTER_ATTR,
+  EVEN_PAGE_HEADER_ATTR,
+  EVEN_PAGE_FOOTER_ATTR,
+  HEADER_FOOTER_SLOT_CLASS,
+  HEADER_FOOTER_EDITABLE_CLASS,
+  HEADER_FOOTER_EDITING_CLASS,
+  // Utilities
+  sanitizeHeaderFooterHtml,
+  getHeaderFooterVariant,
+} from './header-footer'
+export {
+  // Types
+  type PageNumberStyle,
+  type PageNumberPosition,
+  type HeaderFooterToken,
+  type HeaderFooterTokenValues,
+  // Constants
+  PAGE_NUMBER_STYLES,
+  HEADER_FOOTER_TOKENS,
+  // Utilities
+  toRoman,
+  toAlpha,
+  formatPageNumberStyle,
+  replaceHeaderFooterTokens,
+} from './page-number'
@@ -1,10 +1,35 @@
 import { Node, mergeAttributes } from '@tiptap/core'
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model'
+import type { EditorState, Transaction } from '@tiptap/pm/state'
 
 export interface PageBreakOptions {
   /**
    * HTML attributes to add to the page break element
    */
   HTMLAttributes: Record<string, unknown>
+  /**
+   * Block types carrying the `pageBreakBefore`, `keepWithNext` and
+   * `keepTogether` attributes
+   */
+  types: string[]
+}
+
+/**
+ * Where the content after a break continues:
+ * - `page`: the next page
+ * - `oddPage` / `evenPage`: the next odd (right-hand) or even (left-hand)
+ *   page, leaving a blank page if needed
+ * - `column`: the next column; with a single column this is the next page
+ */
+export type PageBreakType = 'page' | 'oddPage' | 'evenPage' | 'column'
+
+export const PAGE_BREAK_TYPES: PageBreakType[] = ['page', 'oddPage', 'evenPage', 'column']
+
+const PAGE_BREAK_LABELS: Record<PageBreakType, string> = {
+  page: 'Page Break',
+  oddPage: 'Page Break (Odd Page)',
+  evenPage: 'Page Break (Even Page)',
+  column: 'Column Break',
 }
 
 declare module '@tiptap/core' {
@@ -13,9 +38,120 @@ declare module '@tiptap/core' {
       /**
        * Insert a hard page break at the current cursor position
        */
-      setPageBreak: () => ReturnType
+      setPageBreak: (breakType?: PageBreakType) => ReturnType
+      /**
+       * Insert a break continuing on the next odd (right-hand) page
+       */
+      setOddPageBreak: () => ReturnType
+      /**
+       * Insert a break continuing on the next even (left-hand) page
+       */
+      setEvenPageBreak: () => ReturnType
+      /**
+       * Insert a column break
+       */
+      setColumnBreak: () => ReturnType
+      /**
+       * Change the type of the selected page break
+       */
+      setPageBreakType: (breakType: PageBreakType) => ReturnType
+      /**
+       * Keep the selected blocks on the same page as the following block
+       */
+      toggleKeepWithNext: () => ReturnType
+      /**
+       * Keep each selected block on one page
+       */
+      toggleKeepTogether: () => ReturnType
+    }
+  }
+}
+
+export const PAGE_BREAK_NODE = 'pageBreak'
+
+/**
+ * Validate a break type read from untrusted data; unknown values are `page`
+ */
+export function normalizePageBreakType(value: unknown): PageBreakType {
+  return PAGE_BREAK_TYPES.includes(value as PageBreakType) ? value as PageBreakType : 'page'
+}
+
+export function getPageBreakLabel(breakType: PageBreakType): string {
+  return PAGE_BREAK_LABELS[breakType]
+}
+
+// CSS written by Word, Google Docs and browsers; `avoid` values don't break
+const BREAK_BEFORE_PATTERN = /(?:^|;)\s*(?:page-break-before|break-before)\s*:\s*(?:always|page|left|right|recto|verso)\b/i
+const KEEP_WITH_NEXT_PATTERN = /(?:^|;)\s*(?:page-break-after|break-after)\s*:\s*(?:avoid|avoid-page)\b/i
+const KEEP_TOGETHER_PATTERN = /(?:^|;)\s*(?:page-break-inside|break-inside)\s*:\s*(?:avoid|avoid-page)\b/i
+
+/**
+ * Whether an element's inline style forces a page break before it
+ */
+export function hasPageBreakBefore(element: HTMLElement): boolean {
+  return BREAK_BEFORE_PATTERN.test(element.getAttribute('style') ?? '')
+}
+
+const TEXTBLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6'
+
+/**
+ * Whether a `<br>` forcing a page break is the first content of its
+ * paragraph (Word writes page breaks this way)
+ */
+function isLeadingPageBreakLine(br: HTMLElement): boolean {
+  const block = br.closest(TEXTBLOCK_SELECTOR)
+  if (!block || !hasPageBreakBefore(br)) return false
+  const range = br.ownerDocument.createRange()
+  range.setStart(block, 0)
+  range.setEndBefore(br)
+  return range.toString().trim() === ''
+}
+
+function startsWithPageBreakLine(element: HTMLElement): boolean {
+  return Array.from(element.querySelectorAll<HTMLElement>('br')).some(isLeadingPageBreakLine)
+}
+
+/**
+ * Whether an element's inline style keeps it on the page of the next block
+ */
+export function hasKeepWithNext(element: HTMLElement): boolean {
+  return KEEP_WITH_NEXT_PATTERN.test(element.getAttribute('style') ?? '')
+}
+
+/**
+ * Whether an element's inline style keeps it on one page
+ */
+export function hasKeepTogether(element: HTMLElement): boolean {
+  return KEEP_TOGETHER_PATTERN.test(element.getAttribute('style') ?? '')
+}
+
+/**
+ * Toggle a break control attribute on the top-level blocks of the selection.
+ * It is turned on unless every block has it already.
+ */
+function toggleBlockAttribute(
+  state: EditorState,
+  tr: Transaction,
+  dispatch: ((tr: Transaction) => void) | undefined,
+  types: string[],
+  attribute: string
+): boolean {
+  const { from, to } = state.selection
+  const blocks: Array<{ node: ProseMirrorNode; pos: number }> = []
+  state.doc.nodesBetween(from, to, (node, pos) => {
+    if (types.includes(node.type.name)) blocks.push({ node, pos })
+    // Pagination measures top-level blocks only
+    return false
+  })
+  if (blocks.length === 0) return false
+
+  const value = !blocks.every(({ node }) => node.attrs[attribute])
+  if (dispatch) {
+    for (const { node, pos } of blocks) {
+      tr.setNodeMarkup(pos, undefined, { ...node.attrs, [attribute]: value })
     }
   }
+  return true
 }
 
 /**
@@ -27,10 +163,12 @@ declare module '@tiptap/core' {
  * 
  * Usage:
  * - Cmd+Enter (Mac) / Ctrl+Enter (Windows) to insert
- * - editor.commands.setPageBreak() programmatically
+ * - Mod+Alt+Enter / Mod+Alt+Shift+Enter for odd / even page breaks
+ * - Mod+Shift+Enter for a column break
+ * - editor.commands.setPageBreak('oddPage') programmatically
  */
 export const PageBreak = Node.create<PageBreakOptions>({
-  name: 'pageBreak',
+  name: PAGE_BREAK_NODE,
 
   // Appears at block level, between paragraphs
   group: 'block',
@@ -49,6 +187,54 @@ export const PageBreak = Node.create<PageBreakOptions>({
       HTMLAttributes: {
         class: 'page-break',
       },
+      types: ['paragraph', 'heading', 'blockquote', 'codeBlock', 'bulletList', 'orderedList', 'table'],
+    }
+  },
+
+  addGlobalAttributes() {
+    // Break control (`page-break-before: always`, `page-break-after: avoid`,
+    // `page-break-inside: avoid`), parsed from imported content, honored by
+    // the pagination measurement and written back out as CSS for printing and
+    // export.
+    return [
+      {
+        types: this.options.types,
+        attributes: {
+          pageBreakBefore: {
+            default: false,
+            parseHTML: element => hasPageBreakBefore(element) || startsWithPageBreakLine(element),
+            renderHTML: attributes => (
+              attributes.pageBreakBefore ? { style: 'page-break-before: always; break-before: page' } : {}
+            ),
+          },
+          keepWithNext: {
+            default: false,
+            parseHTML: element => hasKeepWithNext(element),
+            renderHTML: attributes => (
+              attributes.keepWithNext ? { style: 'page-break-after: avoid; break-after: avoid' } : {}
+            ),
+          },
+          keepTogether: {
+            default: false,
+            parseHTML: element => hasKeepTogether(element),
+            renderHTML: attributes => (
+              attributes.keepTogether ? { style: 'page-break-inside: avoid; break-inside: avoid' } : {}
+            ),
+          },
+        },
+      },
+    ]
+  },
+
+  addAttributes() {
+    return {
+      breakType: {
+        default: 'page',
+        parseHTML: element => normalizePageBreakType(element.getAttribute('data-break-type')),
+        renderHTML: attributes => (
+          attributes.breakType && attributes.breakType !== 'page' ? { 'data-break-type': attributes.breakType } : {}
+        ),
+      },
     }
   },
 
@@ -64,12 +250,29 @@ export const PageBreak = Node.create<PageBreakOptions>({
       {
         tag: 'div.page-break',
       },
+      // Word's `<br clear=all style='page-break-before:always'>` between
+      // paragraphs. Runs before the hard break rule.
+      {
+        tag: 'br',
+        priority: 60,
+        getAttrs: element => (hasPageBreakBefore(element) && !element.closest(TEXTBLOCK_SELECTOR) ? null : false),
+      },
+      // At the start of a paragraph it becomes the paragraph's `pageBreakBefore`.
+      // Further inside a paragraph it stays a line break.
+      {
+        tag: 'br',
+        priority: 60,
+        ignore: true,
+        getAttrs: element => (isLeadingPageBreakLine(element) ? null : false),
+      },
     ]
   },
 
-  renderHTML({ HTMLAttributes }) {
+  renderHTML({ node, HTMLAttributes }) {
+    const label = getPageBreakLabel(normalizePageBreakType(node.attrs.breakType))
     const attrs = mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
       'data-page-break': 'true',
+      'data-page-break-label': label,
       'contenteditable': 'false',
     }) as Record<string, unknown>
 
@@ -90,7 +293,7 @@ export const PageBreak = Node.create<PageBreakOptions>({
         [
           'span',
           { class: 'page-break-label' },
-          'Page Break',
+          label,
         ],
       ],
     ]
@@ -99,12 +302,46 @@ export const PageBreak = Node.create<PageBreakOptions>({
   addCommands() {
     return {
       setPageBreak:
-        () =>
+        (breakType: PageBreakType = 'page') =>
         ({ commands }) => {
+          if (!PAGE_BREAK_TYPES.includes(breakType)) return false
           return commands.insertContent({
             type: this.name,
+            attrs: { breakType },
           })
         },
+
+      setOddPageBreak:
+        () =>
+        ({ commands }) => commands.setPageBreak('oddPage'),
+
+      setEvenPageBreak:
+        () =>
+        ({ commands }) => commands.setPageBreak('evenPage'),
+
+      setColumnBreak:
+        () =>
+        ({ commands }) => commands.setPageBreak('column'),
+
+      setPageBreakType:
+        (breakType: PageBreakType) =>
+        ({ state, commands }) => {
+          if (!PAGE_BREAK_TYPES.includes(breakType)) return false
+          const { from, to } = state.selection
+          let hasPageBreak = false
+          state.doc.nodesBetween(from, to, node => {
+            if (node.type.name === this.name) hasPageBreak = true
+          })
+          return hasPageBreak && commands.updateAttributes(this.name, { breakType })
+        },
+
+      toggleKeepWithNext:
+        () =>
+        ({ state, tr, dispatch }) => toggleBlockAttribute(state, tr, dispatch, this.options.types, 'keepWithNext'),
+
+      toggleKeepTogether:
+        () =>
+        ({ state, tr, dispatch }) => toggleBlockAttribute(state, tr, dispatch, this.options.types, 'keepTogether'),
     }
   },
 
@@ -112,6 +349,9 @@ export const PageBreak = Node.create<PageBreakOptions>({
     return {
       // Cmd+Enter on Mac, Ctrl+Enter on Windows/Linux
       'Mod-Enter': () => this.editor.commands.setPageBreak(),
+      'Mod-Alt-Enter': () => this.editor.commands.setOddPageBreak(),
+      'Mod-Alt-Shift-Enter': () => this.editor.commands.setEvenPageBreak(),
+      'Mod-Shift-Enter': () => this.editor.commands.setColumnBreak(),
     }
   },
 })
@@ -2,12 +2,36 @@
  * Page Format Utility
  * 
  * Defines standard page dimensions for legal and international document formats.
- * All dimensions are in pixels at 96 DPI (standard screen resolution).
+ * Page setups are authored as lengths with units (`'210mm'`, `'1in'`, `'72pt'`;
+ * plain numbers are CSS pixels) and only converted to pixels when a layout is
+ * computed (`getPageLayoutDimensions`), at a configurable DPI.
  * 
- * Conversion: 1 inch = 96px, 1 cm = 37.795px
+ * Conversion at 96 DPI: 1 inch = 96px, 1 cm = 37.795px, 1 pt = 1.333px
  */
 
-export type PageFormatName = 'A4' | 'Letter' | 'Legal'
+export type BuiltInPageFormatName =
+  | 'A3'
+  | 'A4'
+  | 'A5'
+  | 'B5'
+  | 'JIS-B5'
+  | 'Letter'
+  | 'Legal'
+  | 'Executive'
+  | 'Tabloid'
+  | 'Statement'
+
+/**
+ * Names of formats added with `registerPageFormat`. Augment this interface to
+ * type them:
+ *
+ * declare module 'tiptap-community-pages' {
+ *   interface CustomPageFormats { Pleading: true }
+ * }
+ */
+export interface CustomPageFormats {}
+
+export type PageFormatName = BuiltInPageFormatName | Extract<keyof CustomPageFormats, string>
 export type PageOrientation = 'portrait' | 'landscape'
 
 export interface PageDimensions {
@@ -24,62 +48,202 @@ export interface PageMargins {
   left: number
 }
 
+export type LengthUnit = 'px' | 'mm' | 'cm' | 'in' | 'pt'
+
+/**
+ * A length with its unit, e.g. `'210mm'` or `'0.75in'`. Plain numbers are CSS
+ * pixels (1/96 inch).
+ */
+export type Length = number | `${number}${LengthUnit}`
+
+/** Page size in any unit */
+export interface PageSizeLengths {
+  width: Length
+  height: Length
+}
+
+/** Page margins in any unit */
+export type PageMarginLengths = Record<keyof PageMargins, Length>
+
 export interface PageFormat {
   name: PageFormatName
+  /** Portrait dimensions in CSS pixels (exact, not rounded) */
   dimensions: PageDimensions
-  /** Default margins in pixels */
+  /** Default margins in CSS pixels */
   defaultMargins: PageMargins
   /** Human-readable description */
   description: string
 }
 
-export interface PageConfig {
-  format: PageFormatName | PageDimensions
+/** Input of `registerPageFormat` */
+export interface PageFormatDefinition {
+  name: string
+  /** Portrait dimensions */
+  dimensions: PageSizeLengths
+  /** Default margins */
+  defaultMargins: PageMarginLengths
+  /** Human-readable description (defaults to the name) */
+  description?: string
+}
+
+/**
+ * Page setup as authored. Lengths keep their units; use
+ * `getPageLayoutDimensions` to get pixels.
+ */
+export interface PageConfig extends PageBinding {
+  format: PageFormatName | PageSizeLengths
   orientation: PageOrientation
-  margins: PageMargins
+  margins: PageMarginLengths
+}
+
+/**
+ * Binding setup of double-sided documents. With mirror margins, `margins.left`
+ * is the inside and `margins.right` the outside margin, and they swap on even
+ * (left-hand) pages. The gutter is added to the binding edge: the inside with
+ * mirror margins, otherwise the left edge of every page.
+ */
+export interface PageBinding {
+  mirrorMargins?: boolean
+  gutter?: Length
+}
+
+/** CSS pixels per inch; layouts are computed at this DPI by default */
+export const DEFAULT_DPI = 96
+
+// Length of one unit in inches
+const INCHES_PER_UNIT: Record<LengthUnit, number> = {
+  px: 1 / DEFAULT_DPI,
+  mm: 1 / 25.4,
+  cm: 1 / 2.54,
+  in: 1,
+  pt: 1 / 72,
 }
 
-// Constants for conversions
-const PIXELS_PER_INCH = 96
-const PIXELS_PER_CM = 37.795275591
+// Divisors keep exact results for whole units (2.54cm → exactly 96px)
+const UNITS_PER_INCH: Record<LengthUnit, number> = {
+  px: DEFAULT_DPI,
+  mm: 25.4,
+  cm: 2.54,
+  in: 1,
+  pt: 72,
+}
+
+const LENGTH_PATTERN = /^(\d*\.?\d+(?:e[+-]?\d+)?)(px|mm|cm|in|pt)$/
+
+/**
+ * Split a length into value and unit. Returns null for invalid lengths.
+ */
+export function parseLength(length: unknown): { value: number; unit: LengthUnit } | null {
+  if (typeof length === 'number') {
+    return Number.isFinite(length) ? { value: length, unit: 'px' } : null
+  }
+  if (typeof length !== 'string') return null
+  const match = LENGTH_PATTERN.exec(length.trim())
+  return match ? { value: parseFloat(match[1]), unit: match[2] as LengthUnit } : null
+}
+
+/**
+ * Create a length from a value and unit (pixels stay plain numbers)
+ */
+export function createLength(value: number, unit: LengthUnit = 'px'): Length {
+  return unit === 'px' ? value : `${value}${unit}`
+}
+
+/**
+ * Convert a value in the given unit to pixels at the given DPI (not rounded)
+ */
+export function lengthToPixels(value: number, unit: LengthUnit = 'px', dpi: number = DEFAULT_DPI): number {
+  const unitsPerInch = UNITS_PER_INCH[unit]
+  if (unitsPerInch === undefined) return NaN
+  return value / unitsPerInch * dpi
+}
+
+/**
+ * Convert a length to pixels at the given DPI. Returns NaN for invalid lengths.
+ */
+export function toPixels(length: Length, dpi: number = DEFAULT_DPI): number {
+  const parsed = parseLength(length)
+  return parsed ? lengthToPixels(parsed.value, parsed.unit, dpi) : NaN
+}
+
+/**
+ * Convert a length to another unit
+ */
+export function convertLength(length: Length, unit: LengthUnit): number {
+  const parsed = parseLength(length)
+  if (!parsed) return NaN
+  return parsed.value * INCHES_PER_UNIT[parsed.unit] * UNITS_PER_INCH[unit]
+}
 
 /**
  * Convert inches to pixels
  */
-export function inchesToPixels(inches: number): number {
-  return Math.round(inches * PIXELS_PER_INCH)
+export function inchesToPixels(inches: number, dpi: number = DEFAULT_DPI): number {
+  return lengthToPixels(inches, 'in', dpi)
 }
 
 /**
  * Convert centimeters to pixels
  */
-export function cmToPixels(cm: number): number {
-  return Math.round(cm * PIXELS_PER_CM)
+export function cmToPixels(cm: number, dpi: number = DEFAULT_DPI): number {
+  return lengthToPixels(cm, 'cm', dpi)
+}
+
+/**
+ * Convert millimeters to pixels
+ */
+export function mmToPixels(mm: number, dpi: number = DEFAULT_DPI): number {
+  return lengthToPixels(mm, 'mm', dpi)
+}
+
+/**
+ * Convert points (1/72 inch) to pixels
+ */
+export function pointsToPixels(points: number, dpi: number = DEFAULT_DPI): number {
+  return lengthToPixels(points, 'pt', dpi)
 }
 
 /**
  * Convert pixels to inches
  */
-export function pixelsToInches(pixels: number): number {
-  return pixels / PIXELS_PER_INCH
+export function pixelsToInches(pixels: number, dpi: number = DEFAULT_DPI): number {
+  return pixels / dpi
 }
 
 /**
  * Convert pixels to centimeters
  */
-export function pixelsToCm(pixels: number): number {
-  return pixels / PIXELS_PER_CM
+export function pixelsToCm(pixels: number, dpi: number = DEFAULT_DPI): number {
+  return pixels / dpi * 2.54
 }
 
 /**
- * Standard page formats with dimensions at 96 DPI
+ * Convert pixels to points
  */
-export const PAGE_FORMATS: Record<PageFormatName, PageFormat> = {
+export function pixelsToPoints(pixels: number, dpi: number = DEFAULT_DPI): number {
+  return pixels / dpi * 72
+}
+
+const BUILT_IN_PAGE_FORMATS: Record<BuiltInPageFormatName, PageFormat> = {
+  A3: {
+    name: 'A3',
+    dimensions: {
+      width: mmToPixels(297),
+      height: mmToPixels(420),
+    },
+    defaultMargins: {
+      top: cmToPixels(2.54),
+      right: cmToPixels(2.54),
+      bottom: cmToPixels(2.54),
+      left: cmToPixels(2.54),
+    },
+    description: 'ISO A3 (297 × 420 mm)',
+  },
   A4: {
     name: 'A4',
     dimensions: {
-      width: 794,  // 210mm = 8.27 inches
-      height: 1123, // 297mm = 11.69 inches
+      width: mmToPixels(210),
+      height: mmToPixels(297),
     },
     defaultMargins: {
       top: cmToPixels(2.54),    // 1 inch = 2.54cm
@@ -89,11 +253,54 @@ export const PAGE_FORMATS: Record<PageFormatName, PageFormat> = {
     },
     description: 'ISO A4 (210 × 297 mm)',
   },
+  A5: {
+    name: 'A5',
+    dimensions: {
+      width: mmToPixels(148),
+      height: mmToPixels(210),
+    },
+    defaultMargins: {
+      top: cmToPixels(2),
+      right: cmToPixels(2),
+      bottom: cmToPixels(2),
+      left: cmToPixels(2),
+    },
+    description: 'ISO A5 (148 × 210 mm)',
+  },
+  B5: {
+    name: 'B5',
+    dimensions: {
+      width: mmToPixels(176),
+      height: mmToPixels(250),
+    },
+    defaultMargins: {
+      top: cmToPixels(2),
+      right: cmToPixels(2),
+      bottom: cmToPixels(2),
+      left: cmToPixels(2),
+    },
+    description: 'ISO B5 (176 × 250 mm)',
+  },
+  'JIS-B5': {
+    name: 'JIS-B5',
+    dimensions: {
+      width: mmToPixels(182),
+      height: mmToPixels(257),
+    },
+    // Japanese word processor defaults: 25mm top/bottom, 20mm left/right
+    defaultMargins: {
+      top: cmToPixels(2.5),
+      right: cmToPixels(2),
+      bottom: cmToPixels(2.5),
+      left: cmToPixels(2),
+    },
+    description: 'JIS B5 (182 × 257 mm)',
+  },
   Letter: {
     name: 'Letter',
     dimensions: {
-      width: 816,   // 8.5 inches
-      height: 1056, // 11 inches
+      width: inchesToPixels(8.5),
+      height: inchesToPixels(11),
     },
     defaultMargins: {
       top: inchesToPixels(1),
@@ -106,8 +313,8 @@ export const PAGE_FORMATS: Record<PageFormatName, PageFormat> = {
   Legal: {
     name: 'Legal',
     dimensions: {
-      width: 816,   // 8.5 inches
-      height: 1344, // 14 inches
+      width: inchesToPixels(8.5),
+      height: inchesToPixels(14),
     },
     defaultMargins: {
       top: inchesToPixels(1),
@@ -117,21 +324,187 @@ export const PAGE_FORMATS: Record<PageFormatName, PageFormat> = {
     },
     description: 'US Legal (8.5 × 14 inches)',
   },
+  Executive: {
+    name: 'Executive',
+    dimensions: {
+      width: inchesToPixels(7.25),
+      height: inchesToPixels(10.5),
+    },
+    defaultMargins: {
+      top: inchesToPixels(1),
+      right: inchesToPixels(1),
+      bottom: inchesToPixels(1),
+      left: inchesToPixels(1),
+    },
+    description: 'US Executive (7.25 × 10.5 inches)',
+  },
+  Tabloid: {
+    name: 'Tabloid',
+    dimensions: {
+      width: inchesToPixels(11),
+      height: inchesToPixels(17),
+    },
+    defaultMargins: {
+      top: inchesToPixels(1),
+      right: inchesToPixels(1),
+      bottom: inchesToPixels(1),
+      left: inchesToPixels(1),
+    },
+    description: 'US Tabloid / Ledger (11 × 17 inches)',
+  },
+  Statement: {
+    name: 'Statement',
+    dimensions: {
+      width: inchesToPixels(5.5),
+      height: inchesToPixels(8.5),
+    },
+    defaultMargins: {
+      top: inchesToPixels(0.75),
+      right: inchesToPixels(0.75),
+      bottom: inchesToPixels(0.75),
+      left: inchesToPixels(0.75),
+    },
+    description: 'US Statement (5.5 × 8.5 inches)',
+  },
+}
+
+/**
+ * Page formats by name: the standard formats (dimensions at 96 DPI) plus the
+ * ones added with `registerPageFormat`
+ */
+export const PAGE_FORMATS = { ...BUILT_IN_PAGE_FORMATS } as Record<PageFormatName, PageFormat>
+
+const MARGIN_KEYS: (keyof PageMargins)[] = ['top', 'right', 'bottom', 'left']
+
+/**
+ * Whether a name is one of the standard formats
+ */
+export function isBuiltInPageFormat(name: string): name is BuiltInPageFormatName {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_PAGE_FORMATS, name)
+}
+
+/**
+ * All available formats: standard formats first, then registered ones
+ */
+export function getPageFormats(): PageFormat[] {
+  return Object.values(PAGE_FORMATS)
 }
 
 /**
- * Get page dimensions for a format, applying orientation
+ * Page dimensions in pixels for a custom size, or null if the size is invalid
+ */
+export function getPageSizeDimensions(size: PageSizeLengths, dpi: number = DEFAULT_DPI): PageDimensions | null {
+  const lengths = normalizePageFormat(size)
+  return lengths && typeof lengths === 'object' ? getPageDimensions(lengths, 'portrait', dpi) : null
+}
+
+/**
+ * Whether the margins leave a writable area on the page
+ */
+export function marginsFitPage(dimensions: PageDimensions, margins: PageMargins): boolean {
+  return margins.left + margins.right < dimensions.width &&
+    margins.top + margins.bottom < dimensions.height
+}
+
+/**
+ * Register a custom named format (e.g. pleading paper). It can then be used
+ * like a standard format: `setPageFormat`, section breaks, `PageWrapper`,
+ * `Toolbar`. Registering a custom name again replaces it; standard formats
+ * can't be replaced.
+ *
+ * Register formats before creating editors that load documents using them.
+ */
+export function registerPageFormat(format: PageFormatDefinition): PageFormat {
+  const { name, dimensions, defaultMargins } = format
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new Error('registerPageFormat: a format name is required')
+  }
+  if (isBuiltInPageFormat(name)) {
+    throw new Error(`registerPageFormat: "${name}" is a standard format and can't be replaced`)
+  }
+  const size = normalizePageFormat(dimensions)
+  if (!size || typeof size === 'string') {
+    throw new Error(`registerPageFormat: "${name}" needs a positive width and height`)
+  }
+  const pixels = getPageDimensions(size)
+  const margins = normalizePageMargins(defaultMargins)
+  if (MARGIN_KEYS.some(key => margins[key] === undefined)) {
+    throw new Error(`registerPageFormat: the default margins of "${name}" must fit on the page`)
+  }
+  const marginPixels = getMarginPixels(margins as PageMarginLengths)
+  if (!marginsFitPage(pixels, marginPixels)) {
+    throw new Error(`registerPageFormat: the default margins of "${name}" must fit on the page`)
+  }
+
+  // The registry holds CSS pixels (exact), like the standard formats
+  const registered: PageFormat = {
+    name: name as PageFormatName,
+    dimensions: pixels,
+    defaultMargins: marginPixels,
+    description: format.description ?? name,
+  }
+  ;(PAGE_FORMATS as Record<string, PageFormat>)[name] = registered
+  return registered
+}
+
+/**
+ * Remove a registered custom format. Returns false for unknown and standard
+ * formats.
+ */
+export function unregisterPageFormat(name: string): boolean {
+  if (isBuiltInPageFormat(name) || !Object.prototype.hasOwnProperty.call(PAGE_FORMATS, name)) return false
+  delete (PAGE_FORMATS as Record<string, PageFormat>)[name]
+  return true
+}
+
+function isValidLength(value: unknown, allowZero: boolean): value is Length {
+  const parsed = parseLength(value)
+  return parsed !== null && (allowZero ? parsed.value >= 0 : parsed.value > 0)
+}
+
+/**
+ * Validate a page format read from untrusted data (saved JSON, HTML).
+ * Returns null for unknown format names and invalid dimensions. Lengths are
+ * kept in their units.
+ */
+export function normalizePageFormat(value: unknown): PageFormatName | PageSizeLengths | null {
+  if (typeof value === 'string') {
+    return Object.prototype.hasOwnProperty.call(PAGE_FORMATS, value) ? value as PageFormatName : null
+  }
+  if (value && typeof value === 'object') {
+    const { width, height } = value as Record<string, unknown>
+    if (isValidLength(width, false) && isValidLength(height, false)) {
+      return { width, height }
+    }
+  }
+  return null
+}
+
+/**
+ * Keep only valid (finite, non-negative) margins
+ */
+export function normalizePageMargins(value: unknown): Partial<PageMarginLengths> {
+  const margins: Partial<PageMarginLengths> = {}
+  if (!value || typeof value !== 'object') return margins
+  for (const key of MARGIN_KEYS) {
+    const margin = (value as Record<string, unknown>)[key]
+    if (isValidLength(margin, true)) margins[key] = margin
+  }
+  return margins
+}
+
+/**
+ * Get page dimensions in pixels for a format, applying orientation
  */
 export function getPageDimensions(
-  format: PageFormatName | PageDimensions,
-  orientation: PageOrientation = 'portrait'
+  format: PageFormatName | PageSizeLengths,
+  orientation: PageOrientation = 'portrait',
+  dpi: number = DEFAULT_DPI
 ): PageDimensions {
-  let dimensions: PageDimensions
-
-  if (typeof format === 'string') {
-    dimensions = { ...PAGE_FORMATS[format].dimensions }
-  } else {
-    dimensions = { ...format }
+  const size = typeof format === 'string' ? PAGE_FORMATS[format].dimensions : format
+  const dimensions = {
+    width: toPixels(size.width, dpi),
+    height: toPixels(size.height, dpi),
   }
 
   // Swap width and height for landscape
@@ -146,12 +519,24 @@ export function getPageDimensions(
 }
 
 /**
- * Get default margins for a format
+ * Get default margins for a format (CSS pixels)
  */
 export function getDefaultMargins(format: PageFormatName): PageMargins {
   return { ...PAGE_FORMATS[format].defaultMargins }
 }
 
+/**
+ * Convert margins to pixels
+ */
+export function getMarginPixels(margins: PageMarginLengths, dpi: number = DEFAULT_DPI): PageMargins {
+  return {
+    top: toPixels(margins.top, dpi),
+    right: toPixels(margins.right, dpi),
+    bottom: toPixels(margins.bottom, dpi),
+    left: toPixels(margins.left, dpi),
+  }
+}
+
 /**
  * Calculate the writable area (content area) of a page
  */
@@ -169,15 +554,16 @@ export function getWritableArea(
  * Create a complete page configuration
  */
 export function createPageConfig(
-  format: PageFormatName | PageDimensions = 'Letter',
+  format: PageFormatName | PageSizeLengths = 'Letter',
   orientation: PageOrientation = 'portrait',
-  margins?: Partial<PageMargins>
+  margins?: Partial<PageMarginLengths>,
+  binding: PageBinding = {}
 ): PageConfig {
-  const defaultMargins = typeof format === 'string'
+  const defaultMargins: PageMarginLengths = typeof format === 'string'
     ? getDefaultMargins(format)
     : { top: 96, right: 96, bottom: 96, left: 96 }
 
-  return {
+  const config: PageConfig = {
     format,
     orientation,
     margins: {
@@ -185,13 +571,17 @@ export function createPageConfig(
       ...margins,
     },
   }
+  // Only set when used, so single-sided configs keep their shape
+  if (binding.mirrorMargins) config.mirrorMargins = true
+  if (isValidLength(binding.gutter, false)) config.gutter = binding.gutter
+  return config
 }
 
 /**
- * Get the effective page dimensions from a config
+ * Get the effective page dimensions (pixels) from a config
  */
-export function getEffectiveDimensions(config: PageConfig): PageDimensions {
-  return getPageDimensions(config.format, config.orientation)
+export function getEffectiveDimensions(config: PageConfig, dpi: number = DEFAULT_DPI): PageDimensions {
+  return getPageDimensions(config.format, config.orientation, dpi)
 }
 
 /**
@@ -199,10 +589,10 @@ export function getEffectiveDimensions(config: PageConfig): PageDimensions {
  */
 export function calculatePageCount(
   contentHeight: number,
-  config: PageConfig
+  config: PageConfig,
+  dpi: number = DEFAULT_DPI
 ): number {
-  const dimensions = getEffectiveDimensions(config)
-  const writableHeight = dimensions.height - config.margins.top - config.margins.bottom
+  const writableHeight = getPageLayoutDimensions(config, dpi).content.height
   
   if (writableHeight <= 0) return 1
   return Math.max(1, Math.ceil(contentHeight / writableHeight))
@@ -213,10 +603,10 @@ export function calculatePageCount(
  */
 export function getPageBreakPositions(
   pageCount: number,
-  config: PageConfig
+  config: PageConfig,
+  dpi: number = DEFAULT_DPI
 ): number[] {
-  const dimensions = getEffectiveDimensions(config)
-  const writableHeight = dimensions.height - config.margins.top - config.margins.bottom
+  const writableHeight = getPageLayoutDimensions(config, dpi).content.height
   
   const positions: number[] = []
   for (let i = 1; i < pageCount; i++) {
@@ -234,24 +624,107 @@ export interface PageLayoutDimensions {
   page: PageDimensions
   /** Writable content area (page minus margins) */
   content: PageDimensions
-  /** Margins */
+  /** Margins of odd (right-hand) pages, gutter included */
   margins: PageMargins
+  /** Left and right margins swap on even pages (see `getPageMargins`) */
+  mirrorMargins: boolean
+  /** Gutter on the binding edge, already part of `margins` */
+  gutter: number
   /** Aspect ratio of the page (width / height) */
   aspectRatio: number
 }
 
 /**
  * Get complete layout dimensions for a page configuration
- * This is the single source of truth for both visual rendering and pagination
+ * This is the single source of truth for both visual rendering and pagination,
+ * and the point where lengths are converted to pixels.
  */
-export function getPageLayoutDimensions(config: PageConfig): PageLayoutDimensions {
-  const page = getEffectiveDimensions(config)
-  const content = getWritableArea(page, config.margins)
+export function getPageLayoutDimensions(config: PageConfig, dpi: number = DEFAULT_DPI): PageLayoutDimensions {
+  const page = getEffectiveDimensions(config, dpi)
+  const gutter = config.gutter ? toPixels(config.gutter, dpi) : 0
+  const margins = getMarginPixels(config.margins, dpi)
+  margins.left += gutter
+  const content = getWritableArea(page, margins)
   
   return {
     page,
     content,
-    margins: config.margins,
+    margins,
+    mirrorMargins: !!config.mirrorMargins,
+    gutter,
     aspectRatio: page.width / page.height,
   }
 }
+
+/**
+ * Margins of a 1-based page. Even pages of a layout with mirror margins have
+ * their left and right margins (and the gutter) swapped.
+ */
+export function getPageMargins(layout: PageLayoutDimensions, pageNumber: number): PageMargins {
+  const { margins } = layout
+  if (!layout.mirrorMargins || pageNumber % 2 === 1) return margins
+  return { ...margins, left: margins.right, right: margins.left }
+}
+
+/**
+ * Whether a 1-based page is laid out with swapped side margins
+ */
+export function isMirroredPage(layout: PageLayoutDimensions, pageNumber: number): boolean {
+  return layout.mirrorMargins && pageNumber % 2 === 0 && layout.margins.left !== layout.margins.right
+}
+
+/**
+ * On-screen arrangement of the pages: one column, two-page spreads (page 1
+ * alone on the right, then even/odd facing pairs) or a grid
+ */
+export type PageViewMode = 'single' | 'spread' | 'grid'
+
+export const PAGE_VIEW_MODES: PageViewMode[] = ['single', 'spread', 'grid']
+
+/** Page slots of a multi-page view */
+export interface PageGrid {
+  /** Pages per row */
+  columns: number
+  /** Empty slots before page 1 */
+  offset: number
+}
+
+/**
+ * Whether the browser wraps CSS columns into rows (`column-wrap`), which the
+ * multi-page views use to start a new row of pages
+ */
+export function supportsPageRows(): boolean {
+  return typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports('column-wrap', 'wrap')
+}
+
+/**
+ * Grid of a multi-page view, or null when the pages are shown in one column.
+ * Pages are only arranged side by side when they all share the first page's
+ * size and side margins (no section with another format or orientation), and
+ * when the browser can wrap them into rows (`supportsPageRows`).
+ */
+export function getPageGrid(
+  mode: PageViewMode,
+  pagesPerRow: number,
+  layouts: PageLayoutDimensions[]
+): PageGrid | null {
+  if (mode === 'single' || layouts.length === 0 || !supportsPageRows()) return null
+  const [first] = layouts
+  const uniform = layouts.every(layout =>
+    layout.page.width === first.page.width &&
+    layout.page.height === first.page.height &&
+    layout.margins.left === first.margins.left &&
+    layout.margins.right === first.margins.right
+  )
+  if (!uniform) return null
+  if (mode === 'spread') return { columns: 2, offset: 1 }
+  return { columns: Math.max(1, Math.floor(pagesPerRow)), offset: 0 }
+}
+
+/**
+ * Row and column of a 0-based page in a page grid
+ */
+export function getPageGridCell(grid: PageGrid, pageIndex: number): { row: number; column: number } {
+  const slot = pageIndex + grid.offset
+  return { row: Math.floor(slot / grid.columns), column: slot % grid.columns }
+}
@@ -0,0 +1,108 @@
+/**
+ * Page Number Utility
+ *
+ * Numbering styles for page numbers and the template tokens available in
+ * header/footer slots:
+ *
+ * - `{page}`  number of the current page
+ * - `{pages}` number of the last page
+ * - `{date}`  current date
+ * - `{title}` document title
+ *
+ * Page numbers honour the configured start number, so an exhibit starting at
+ * page 15 shows `{page}` = 15 on its first page.
+ */
+
+import type { HeaderFooterArea, HeaderFooterSlot } from './header-footer'
+import { escapeHtml } from './header-footer'
+
+export type PageNumberStyle = 'arabic' | 'lower-roman' | 'upper-roman' | 'lower-alpha' | 'upper-alpha'
+
+export const PAGE_NUMBER_STYLES: PageNumberStyle[] = [
+  'arabic',
+  'lower-roman',
+  'upper-roman',
+  'lower-alpha',
+  'upper-alpha',
+]
+
+/** Where the automatic page number is shown */
+export interface PageNumberPosition {
+  area: HeaderFooterArea
+  slot: HeaderFooterSlot
+}
+
+export type HeaderFooterToken = 'page' | 'pages' | 'date' | 'title'
+
+/** Values substituted for the tokens (plain text, escaped when inserted) */
+export type HeaderFooterTokenValues = Record<HeaderFooterToken, string>
+
+export const HEADER_FOOTER_TOKENS: HeaderFooterToken[] = ['page', 'pages', 'date', 'title']
+
+const TOKEN_PATTERN = /\{(page|pages|date|title)\}/g
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'],
+  [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'],
+  [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+]
+
+/**
+ * Convert a number to lowercase roman numerals.
+ * Falls back to arabic digits outside 1..3999.
+ */
+export function toRoman(value: number): string {
+  if (!Number.isInteger(value) || value < 1 || value > 3999) return String(value)
+  let rest = value
+  let result = ''
+  for (const [amount, numeral] of ROMAN_NUMERALS) {
+    while (rest >= amount) {
+      result += numeral
+      rest -= amount
+    }
+  }
+  return result
+}
+
+/**
+ * Convert a number to lowercase letters like CSS `lower-alpha`:
+ * 1 → a, 26 → z, 27 → aa. Falls back to arabic digits below 1.
+ */
+export function toAlpha(value: number): string {
+  if (!Number.isInteger(value) || value < 1) return String(value)
+  let rest = value
+  let result = ''
+  while (rest > 0) {
+    rest -= 1
+    result = String.fromCharCode(97 + (rest % 26)) + result
+    rest = Math.floor(rest / 26)
+  }
+  return result
+}
+
+/**
+ * Format a page number in the given numbering style
+ */
+export function formatPageNumberStyle(value: number, style: PageNumberStyle = 'arabic'): string {
+  switch (style) {
+    case 'lower-roman':
+      return toRoman(value)
+    case 'upper-roman':
+      return toRoman(value).toUpperCase()
+    case 'lower-alpha':
+      return toAlpha(value)
+    case 'upper-alpha':
+      return toAlpha(value).toUpperCase()
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * Replace template tokens in (sanitized) header/footer HTML.
+ * Unknown `{...}` sequences are left untouched.
+ */
+export function replaceHeaderFooterTokens(html: string, values: HeaderFooterTokenValues): string {
+  if (!html || html.indexOf('{') === -1) return html
+  return html.replace(TOKEN_PATTERN, (_match, token: HeaderFooterToken) => escapeHtml(values[token]))
+}
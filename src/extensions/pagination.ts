@@ -1,16 +1,63 @@
 import { Extension } from '@tiptap/core'
-import { Plugin, PluginKey } from '@tiptap/pm/state'
+import type { KeyboardShortcutCommand } from '@tiptap/core'
+import { Plugin, PluginKey, Selection } from '@tiptap/pm/state'
 import { Decoration, DecorationSet } from '@tiptap/pm/view'
 import { EditorView } from '@tiptap/pm/view'
+import { DOMSerializer } from '@tiptap/pm/model'
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model'
 import {
   PageFormatName,
   PageOrientation,
   PageMargins,
-  PageDimensions,
+  PageMarginLengths,
+  PageSizeLengths,
+  PageConfig,
+  Length,
+  DEFAULT_DPI,
   createPageConfig,
+  getPageMargins,
+  isMirroredPage,
+  marginsFitPage,
+  normalizePageFormat,
+  normalizePageMargins,
   getPageLayoutDimensions,
+  toPixels,
   PageLayoutDimensions,
+  PageGrid,
+  PageViewMode,
+  PAGE_VIEW_MODES,
+  getPageGrid,
+  getPageGridCell,
+  supportsPageRows,
 } from './page-format'
+import {
+  HeaderFooterArea,
+  HeaderFooterContent,
+  HeaderFooterModes,
+  HeaderFooterSlot,
+  HeaderFooterVariant,
+  HEADER_FOOTER_ATTRS,
+  HEADER_FOOTER_SLOTS,
+  HEADER_FOOTER_SLOT_CLASS,
+  HEADER_FOOTER_EDITABLE_CLASS,
+  HEADER_FOOTER_EDITING_CLASS,
+  enableHeaderFooterEditing,
+  getHeaderFooterKey,
+  getHeaderFooterVariant,
+  mergeHeaderFooterContent,
+  resolveHeaderFooterContent,
+  escapeHtml,
+} from './header-footer'
+import {
+  HeaderFooterTokenValues,
+  PageNumberPosition,
+  PageNumberStyle,
+  formatPageNumberStyle,
+  replaceHeaderFooterTokens,
+} from './page-number'
+import { SECTION_BREAK_NODE, getSectionPageConfigs } from './section-break'
+import { PAGE_BREAK_NODE, normalizePageBreakType } from './page-break'
+import { createPrintPageRules, updatePrintStyles, removePrintStyles } from './print-styles'
 
 /**
  * Page Structure Classes
@@ -32,42 +79,278 @@ export const LAST_PAGE_FILLER_CLASS = 'ctp-pages-last-filler'
 export const BREAKER_SPACER_CLASS = 'ctp-pages-spacer'
 export const BREAKER_CONTAINER_CLASS = 'ctp-pages-breaker'
 
+export const BLOCK_PUSH_SPACER_CLASS = 'ctp-pages-push'
+export const TABLE_ROW_SPACER_CLASS = 'ctp-pages-row-push'
+export const REPEATED_HEADER_ROW_CLASS = 'ctp-pages-repeated-header'
+
+// Node names of the StarterKit-compatible table (`@tiptap/extension-table`)
+const TABLE_NODE = 'table'
+const TABLE_HEADER_NODE = 'tableHeader'
+
 const PAGINATION_DATA_ATTR = 'data-ctp-pagination'
+// Transaction meta announcing new page ranges when nothing has to be redrawn
+const PAGE_RANGES_META = 'paginationPageRanges'
+/** Set on the editor element while the pages are shown side by side */
+export const VIEW_MODE_ATTR = 'data-ctp-view-mode'
 const PAGINATION_CONTAINER_ID = 'ctp-pages'
+const PAGINATION_STYLES_ID = 'ctp-pagination-styles'
+
+// Editors sharing the injected pagination styles; removed with the last one
+let paginationStyleUsers = 0
+// Keys the print styles of each editor on the page
+let printStylesCount = 0
 
 export interface PageNumberDisplayOptions {
   showPageNumbers: boolean
   separator: string
   formatPageNumber?: (currentPage: number, totalPages: number, separator: string) => string
+  style: PageNumberStyle
+  startNumber: number
+  position: PageNumberPosition
 }
 
 export interface PaginationOptions {
-  pageFormat: PageFormatName | { width: number; height: number }
+  /** Named format or size in any unit, e.g. `{ width: '210mm', height: '297mm' }` */
+  pageFormat: PageFormatName | PageSizeLengths
   orientation: PageOrientation
-  margins: Partial<PageMargins>
+  /** Margins in any unit, e.g. `{ left: '1.5in' }` */
+  margins: Partial<PageMarginLengths>
+  /** Swap left (inside) and right (outside) margins on even pages */
+  mirrorMargins: boolean
+  /** Extra margin on the binding edge, in any unit */
+  gutter: Length
+  /** Pixels per inch used to lay out pages (CSS pixels: 96) */
+  dpi: number
   widowOrphanControl: boolean
   minLinesAtBreak: number
   pageGap: number
   showPageNumbers: boolean
   pageNumberSeparator: string
+  /** Receives the displayed page numbers (offset by `pageNumberStart`) */
   formatPageNumber?: (currentPage: number, totalPages: number, separator: string) => string
+  /** Numbering style of page numbers and the `{page}` / `{pages}` tokens */
+  pageNumberStyle: PageNumberStyle
+  /** Number shown on the first page (e.g. exhibits continuing a series) */
+  pageNumberStart: number
+  /** Slot showing the page number when that slot has no content of its own */
+  pageNumberPosition: PageNumberPosition
+  /** Value of the `{title}` token */
+  documentTitle: string
+  /** Format of the `{date}` token (defaults to the locale date) */
+  formatDate?: (date: Date) => string
+  /** Default running header for documents that don't store one */
+  header: HeaderFooterContent
+  /** Default running footer for documents that don't store one */
+  footer: HeaderFooterContent
+  /** Use a separate header/footer on page 1 (e.g. letterhead) */
+  differentFirstPage: boolean
+  /** Use a separate header/footer on even pages; page numbers move to the outside edge */
+  differentOddEven: boolean
+  /** Default first-page header/footer (with `differentFirstPage`) */
+  firstPageHeader: HeaderFooterContent
+  firstPageFooter: HeaderFooterContent
+  /** Default even-page header/footer (with `differentOddEven`) */
+  evenPageHeader: HeaderFooterContent
+  evenPageFooter: HeaderFooterContent
+  /** Allow editing headers/footers in place (double-click a slot) */
+  editableHeaderFooter: boolean
+  /**
+   * Element scrolled by `goToPage` and used to find the visible page. Defaults
+   * to the nearest scrollable ancestor of the editor, or the window.
+   */
+  scrollContainer?: () => HTMLElement | null
+  /**
+   * Move the caret page by page with PageUp/PageDown (previous/next page) and
+   * Mod-PageUp/Mod-PageDown (first/last page)
+   */
+  pageNavigationShortcuts: boolean
+  /**
+   * Show pages side by side: `spread` for facing pages, `grid` for
+   * `pagesPerRow` pages per row. Needs uniform page sizes and a browser
+   * supporting `column-wrap` (see `supportsPageRows`); elsewhere the editor
+   * starts in `single`.
+   */
+  viewMode: PageViewMode
+  /** Pages per row in the `grid` view mode */
+  pagesPerRow: number
   onPageCountChange?: (count: number) => void
+  /** Called when the selection head moves to another page (1-based) */
+  onCurrentPageChange?: (page: number) => void
+  /** Called when another page becomes the most visible one in the scroll container (1-based) */
+  onVisiblePageChange?: (page: number) => void
+  /** Called when the page layouts change (e.g. a section break moved to another page) */
+  onPageLayoutsChange?: (layouts: PageLayoutDimensions[]) => void
+}
+
+/**
+ * Scrolling done by `goToPage`
+ */
+export interface GoToPageOptions {
+  /** Scroll animation (default `smooth`) */
+  behavior?: ScrollBehavior
+  /** Alignment of the page in the scroll container (default `start`) */
+  block?: ScrollLogicalPosition
+  /** Element to scroll, overriding the `scrollContainer` option */
+  scrollContainer?: HTMLElement | null
+  /** Focus the editor (default true) */
+  focus?: boolean
+}
+
+/**
+ * Running header/footer content (all variants) passed to the overlay widgets
+ */
+export interface HeaderFooterRenderContent extends HeaderFooterModes {
+  variants: Record<HeaderFooterVariant, Record<HeaderFooterArea, HeaderFooterContent>>
+  /** Token values shared by all pages */
+  tokens: Pick<HeaderFooterTokenValues, 'date' | 'title'>
+}
+
+/**
+ * Header/footer content resolved for one set of doc attributes
+ */
+interface HeaderFooterCache {
+  attrs: ProseMirrorNode['attrs']
+  date: string
+  content: HeaderFooterRenderContent
+}
+
+/**
+ * A block that the measurement pass moved to the top of the next page.
+ */
+interface BlockPush {
+  /** Visual distance (px) the block is moved down by */
+  offset: number
+  /** Height of the spacer widget producing that offset (offset minus collapsed margins) */
+  spacerHeight: number
+}
+
+/**
+ * A table row that the measurement pass moved to the top of the next page.
+ * A spacer row fills the rest of the page, followed by copies of the table's
+ * header rows.
+ */
+interface TableRowPush extends BlockPush {
+  /** Number of leading header rows repeated above the row */
+  headerRows: number
+}
+
+/**
+ * Everything the measurement pass moved to the next page. Keys are child
+ * indices rather than positions, which keeps the spacer widgets in place even
+ * if the doc changes before the next measurement.
+ */
+interface FlowPushes {
+  /** Top-level blocks, by child index */
+  blocks: Map<number, BlockPush>
+  /** Table rows, by table and row index */
+  tableRows: Map<string, TableRowPush>
+  /** Content inside top-level blocks moved below a page overlay, by node path */
+  nested: Map<string, BlockPush>
+}
+
+/**
+ * Document range covered by a page. `to` is the `from` of the next page (or
+ * the end of the document for the last page), so ranges are contiguous.
+ */
+export interface PageRange {
+  from: number
+  to: number
 }
 
 export interface PaginationStorage {
-  pageConfig: ReturnType<typeof createPageConfig>
+  /** Document page setup, kept in sync with the doc attributes */
+  pageConfig: PageConfig
   pageCount: number
+  /** 1-based page containing the selection head */
+  currentPage: number
+  /** 1-based page taking up most of the scroll container (or window) */
+  visiblePage: number
+  /**
+   * Current view mode; `single` in browsers that can't wrap columns into
+   * rows, and shown as `single` while page sizes differ
+   */
+  viewMode: PageViewMode
+  pagesPerRow: number
+  /** Document positions where pages 2..n start */
   pageBreakPositions: number[]
+  /** Document range per page (index 0 = page 1) */
+  pageRanges: PageRange[]
+  /**
+   * Positions of nodes that crossed a page boundary and were moved below the
+   * page overlay (images, code blocks, non-editable nodes)
+   */
+  overlayCollisionPositions: number[]
   measuredContentHeight: number
+  /** Layout of every page (index 0 = page 1); differs per section */
+  pageLayouts: PageLayoutDimensions[]
+  /** 1-based page number containing the document position */
+  getPageForPos: (pos: number) => number
+  /** Document range of a 1-based page, or null if the page doesn't exist */
+  getPageRange: (page: number) => PageRange | null
 }
 
 declare module '@tiptap/core' {
   interface Commands<ReturnType> {
     pagination: {
+      /**
+       * Change the document page format. Current margins are kept.
+       */
       setPageFormat: (format: PageFormatName) => ReturnType
+      /**
+       * Switch to a custom page size in any unit, e.g. `{ width: '8in',
+       * height: '10in' }`. Fails if the size is invalid or the current margins
+       * don't fit on it.
+       */
+      setPageSize: (size: PageSizeLengths) => ReturnType
       setOrientation: (orientation: PageOrientation) => ReturnType
-      setMargins: (margins: Partial<PageMargins>) => ReturnType
-      goToPage: (pageNumber: number) => ReturnType
+      /**
+       * Update document margins. Unspecified sides are kept.
+       */
+      setMargins: (margins: Partial<PageMarginLengths>) => ReturnType
+      /**
+       * Mirror the side margins on even pages (left = inside, right = outside)
+       */
+      setMirrorMargins: (enabled: boolean) => ReturnType
+      /**
+       * Set the gutter on the binding edge (any unit, 0 to remove). Fails if
+       * the length is invalid or the margins no longer fit on the page.
+       */
+      setGutter: (gutter: Length) => ReturnType
+      /**
+       * Put the selection at the first position of a (1-based) page and
+       * scroll the page into view. Fails if the page doesn't exist.
+       */
+      goToPage: (pageNumber: number, options?: GoToPageOptions) => ReturnType
+      /**
+       * Switch between the single-column, spread and grid views. Fails for
+       * unknown modes or a page count per row below 1.
+       */
+      setViewMode: (mode: PageViewMode, pagesPerRow?: number) => ReturnType
+      /**
+       * Move the selection to the start of the next page. Fails on the last page.
+       */
+      nextPage: (options?: GoToPageOptions) => ReturnType
+      /**
+       * Move the selection to the start of the current page, or of the previous
+       * page when it is there already. Fails at the start of the first page.
+       */
+      previousPage: (options?: GoToPageOptions) => ReturnType
+      /**
+       * Move the selection to the start of the first page
+       */
+      firstPage: (options?: GoToPageOptions) => ReturnType
+      /**
+       * Move the selection to the start of the last page
+       */
+      lastPage: (options?: GoToPageOptions) => ReturnType
+      /**
+       * Update running header slots (HTML). Empty strings clear a slot.
+       */
+      setPageHeader: (content: HeaderFooterContent, variant?: HeaderFooterVariant) => ReturnType
+      /**
+       * Update running footer slots (HTML). Empty strings clear a slot.
+       */
+      setPageFooter: (content: HeaderFooterContent, variant?: HeaderFooterVariant) => ReturnType
     }
   }
 
@@ -86,96 +369,405 @@ export const Pagination = Extension.create<PaginationOptions, PaginationStorage>
       pageFormat: 'Letter',
       orientation: 'portrait',
       margins: {},
+      mirrorMargins: false,
+      gutter: 0,
+      dpi: DEFAULT_DPI,
       widowOrphanControl: true,
       minLinesAtBreak: 2,
       pageGap: 40,
       showPageNumbers: true,
       pageNumberSeparator: 'of',
       formatPageNumber: undefined,
+      pageNumberStyle: 'arabic',
+      pageNumberStart: 1,
+      pageNumberPosition: { area: 'footer', slot: 'right' },
+      documentTitle: '',
+      formatDate: undefined,
+      header: {},
+      footer: {},
+      differentFirstPage: false,
+      differentOddEven: false,
+      firstPageHeader: {},
+      firstPageFooter: {},
+      evenPageHeader: {},
+      evenPageFooter: {},
+      editableHeaderFooter: true,
+      scrollContainer: undefined,
+      pageNavigationShortcuts: false,
+      viewMode: 'single',
+      pagesPerRow: 3,
       onPageCountChange: undefined,
+      onCurrentPageChange: undefined,
+      onVisiblePageChange: undefined,
+      onPageLayoutsChange: undefined,
     }
   },
 
+  addGlobalAttributes() {
+    // Headers/footers live on the doc node so they are saved with the content
+    // and changes are undoable.
+    const defaults: Record<HeaderFooterVariant, Record<HeaderFooterArea, HeaderFooterContent>> = {
+      default: { header: this.options.header, footer: this.options.footer },
+      first: { header: this.options.firstPageHeader, footer: this.options.firstPageFooter },
+      even: { header: this.options.evenPageHeader, footer: this.options.evenPageFooter },
+    }
+    const attributes: Record<string, { default: HeaderFooterContent; rendered: boolean }> = {}
+    for (const variant of Object.keys(HEADER_FOOTER_ATTRS) as HeaderFooterVariant[]) {
+      for (const area of ['header', 'footer'] as HeaderFooterArea[]) {
+        attributes[HEADER_FOOTER_ATTRS[variant][area]] = {
+          default: defaults[variant][area],
+          rendered: false,
+        }
+      }
+    }
+    const pageConfig = getDefaultPageConfig(this.options)
+    return [
+      {
+        types: ['doc'],
+        attributes: {
+          ...attributes,
+          [PAGE_FORMAT_ATTR]: { default: pageConfig.format, rendered: false },
+          [PAGE_ORIENTATION_ATTR]: { default: pageConfig.orientation, rendered: false },
+          [PAGE_MARGINS_ATTR]: { default: pageConfig.margins, rendered: false },
+          [PAGE_MIRROR_MARGINS_ATTR]: { default: !!pageConfig.mirrorMargins, rendered: false },
+          [PAGE_GUTTER_ATTR]: { default: pageConfig.gutter ?? 0, rendered: false },
+        },
+      },
+    ]
+  },
+
   addStorage() {
-    const config = createPageConfig(
-      this.options.pageFormat,
-      this.options.orientation,
-      this.options.margins
-    )
+    const config = getDefaultPageConfig(this.options)
     return {
       pageConfig: config,
       pageCount: 1,
+      currentPage: 1,
+      visiblePage: 1,
+      viewMode: supportsPageRows() ? this.options.viewMode : 'single',
+      pagesPerRow: this.options.pagesPerRow,
       pageBreakPositions: [],
+      pageRanges: [{ from: 0, to: 0 }],
+      overlayCollisionPositions: [],
       measuredContentHeight: 0,
+      pageLayouts: [getPageLayoutDimensions(config, this.options.dpi)],
+      getPageForPos(pos: number) {
+        return findPageForPos(this.pageBreakPositions, pos)
+      },
+      getPageRange(page: number) {
+        return this.pageRanges[page - 1] ?? null
+      },
     }
   },
 
+  onTransaction({ transaction }) {
+    // Keep the page mapping current between measurement passes.
+    if (!transaction.docChanged) return
+    syncPageConfig(this.storage, transaction.doc, this.options)
+    this.storage.pageBreakPositions = this.storage.pageBreakPositions.map(pos =>
+      transaction.mapping.map(pos, -1)
+    )
+    this.storage.pageRanges = buildPageRanges(
+      this.storage.pageBreakPositions,
+      transaction.doc.content.size
+    )
+    this.storage.overlayCollisionPositions = this.storage.overlayCollisionPositions.map(pos =>
+      transaction.mapping.map(pos)
+    )
+  },
+
   addCommands() {
     return {
       setPageFormat:
         (format: PageFormatName) =>
-        ({ editor }) => {
-          this.storage.pageConfig = createPageConfig(
-            format,
-            this.storage.pageConfig.orientation,
-            this.storage.pageConfig.margins
-          )
-          editor.view.dispatch(editor.state.tr.setMeta(paginationPluginKey, { format }))
+        ({ tr, dispatch }) => {
+          if (!normalizePageFormat(format)) return false
+          const current = getDocumentPageConfig(tr.doc, getDefaultPageConfig(this.options))
+          const { page, margins } = getPageLayoutDimensions({ ...current, format }, this.options.dpi)
+          if (!marginsFitPage(page, margins)) return false
+          if (dispatch) {
+            tr.setDocAttribute(PAGE_FORMAT_ATTR, format)
+          }
+          return true
+        },
+
+      setPageSize:
+        (size: PageSizeLengths) =>
+        ({ tr, dispatch }) => {
+          const format = normalizePageFormat(size)
+          if (!format || typeof format === 'string') return false
+          const current = getDocumentPageConfig(tr.doc, getDefaultPageConfig(this.options))
+          const { page, margins } = getPageLayoutDimensions({ ...current, format }, this.options.dpi)
+          if (!marginsFitPage(page, margins)) return false
+          if (dispatch) {
+            tr.setDocAttribute(PAGE_FORMAT_ATTR, format)
+          }
           return true
         },
 
       setOrientation:
         (orientation: PageOrientation) =>
-        ({ editor }) => {
-          this.storage.pageConfig = createPageConfig(
-            this.storage.pageConfig.format,
-            orientation,
-            this.storage.pageConfig.margins
-          )
-          editor.view.dispatch(editor.state.tr.setMeta(paginationPluginKey, { orientation }))
+        ({ tr, dispatch }) => {
+          if (orientation !== 'portrait' && orientation !== 'landscape') return false
+          const current = getDocumentPageConfig(tr.doc, getDefaultPageConfig(this.options))
+          const { page, margins } = getPageLayoutDimensions({ ...current, orientation }, this.options.dpi)
+          if (!marginsFitPage(page, margins)) return false
+          if (dispatch) {
+            tr.setDocAttribute(PAGE_ORIENTATION_ATTR, orientation)
+          }
           return true
         },
 
       setMargins:
-        (margins: Partial<PageMargins>) =>
-        ({ editor }) => {
-          this.storage.pageConfig = {
-            ...this.storage.pageConfig,
-            margins: {
-              ...this.storage.pageConfig.margins,
-              ...margins,
-            },
+        (margins: Partial<PageMarginLengths>) =>
+        ({ tr, dispatch }) => {
+          const current = getDocumentPageConfig(tr.doc, getDefaultPageConfig(this.options))
+          const merged = { ...current.margins, ...normalizePageMargins(margins) }
+          const layout = getPageLayoutDimensions({ ...current, margins: merged }, this.options.dpi)
+          if (!marginsFitPage(layout.page, layout.margins)) return false
+          if (dispatch) {
+            tr.setDocAttribute(PAGE_MARGINS_ATTR, merged)
+          }
+          return true
+        },
+
+      setMirrorMargins:
+        (enabled: boolean) =>
+        ({ tr, dispatch }) => {
+          if (typeof enabled !== 'boolean') return false
+          if (dispatch) {
+            tr.setDocAttribute(PAGE_MIRROR_MARGINS_ATTR, enabled)
+          }
+          return true
+        },
+
+      setGutter:
+        (gutter: Length) =>
+        ({ tr, dispatch }) => {
+          if (!(toPixels(gutter) >= 0)) return false
+          const current = getDocumentPageConfig(tr.doc, getDefaultPageConfig(this.options))
+          const { page, margins } = getPageLayoutDimensions({ ...current, gutter }, this.options.dpi)
+          if (!marginsFitPage(page, margins)) return false
+          if (dispatch) {
+            tr.setDocAttribute(PAGE_GUTTER_ATTR, gutter)
           }
-          editor.view.dispatch(editor.state.tr.setMeta(paginationPluginKey, { margins }))
           return true
         },
 
       goToPage:
-        (pageNumber: number) =>
-        ({ editor }) => {
-          if (pageNumber <= 1) {
-            editor.commands.focus('start')
-            return true
+        (pageNumber: number, options: GoToPageOptions = {}) =>
+        ({ tr, view, dispatch }) => {
+          const range = Number.isInteger(pageNumber) ? this.storage.getPageRange(pageNumber) : null
+          if (!range) return false
+          if (dispatch) {
+            const from = Math.min(tr.mapping.map(range.from), tr.doc.content.size)
+            tr.setSelection(Selection.near(tr.doc.resolve(from), 1))
+            if (options.focus !== false) view.focus()
+            const editorDom = view.dom as HTMLElement
+            const container = options.scrollContainer !== undefined
+              ? options.scrollContainer
+              : resolveScrollContainer(editorDom, this.options)
+            scrollToPage(editorDom, container, this.storage, this.options.pageGap, pageNumber, options)
           }
-          const element = editor.view.dom.querySelector(
-            '.' + PAGE_BREAK_CLASS + '[data-page="' + pageNumber + '"]'
-          )
-          if (element) {
-            element.scrollIntoView({ behavior: 'smooth', block: 'start' })
+          return true
+        },
+
+      setViewMode:
+        (mode: PageViewMode, pagesPerRow?: number) =>
+        ({ dispatch }) => {
+          if (!PAGE_VIEW_MODES.includes(mode)) return false
+          // Pages can only be shown side by side where columns wrap into rows
+          if (mode !== 'single' && !supportsPageRows()) return false
+          if (pagesPerRow !== undefined && !(Number.isInteger(pagesPerRow) && pagesPerRow >= 1)) return false
+          if (dispatch) {
+            // View state, not document content: applied by the plugin view
+            this.storage.viewMode = mode
+            if (pagesPerRow !== undefined) this.storage.pagesPerRow = pagesPerRow
+          }
+          return true
+        },
+
+      nextPage:
+        (options?: GoToPageOptions) =>
+        ({ tr, commands }) => {
+          return commands.goToPage(this.storage.getPageForPos(tr.selection.head) + 1, options)
+        },
+
+      previousPage:
+        (options?: GoToPageOptions) =>
+        ({ tr, commands }) => {
+          const page = this.storage.getPageForPos(tr.selection.head)
+          const range = this.storage.getPageRange(page)
+          // Like a word processor: back to the top of the current page first
+          if (range) {
+            const from = Math.min(tr.mapping.map(range.from), tr.doc.content.size)
+            if (tr.selection.head > Selection.near(tr.doc.resolve(from), 1).head) {
+              return commands.goToPage(page, options)
+            }
+          }
+          return commands.goToPage(page - 1, options)
+        },
+
+      firstPage:
+        (options?: GoToPageOptions) =>
+        ({ commands }) => {
+          return commands.goToPage(1, options)
+        },
+
+      lastPage:
+        (options?: GoToPageOptions) =>
+        ({ commands }) => {
+          return commands.goToPage(this.storage.pageCount, options)
+        },
+
+      setPageHeader:
+        (content: HeaderFooterContent, variant: HeaderFooterVariant = 'default') =>
+        ({ tr, dispatch }) => {
+          const attr = HEADER_FOOTER_ATTRS[variant]?.header
+          if (!attr) return false
+          if (dispatch) {
+            tr.setDocAttribute(attr, mergeHeaderFooterContent(tr.doc.attrs[attr], content))
           }
           return true
         },
+
+      setPageFooter:
+        (content: HeaderFooterContent, variant: HeaderFooterVariant = 'default') =>
+        ({ tr, dispatch }) => {
+          const attr = HEADER_FOOTER_ATTRS[variant]?.footer
+          if (!attr) return false
+          if (dispatch) {
+            tr.setDocAttribute(attr, mergeHeaderFooterContent(tr.doc.attrs[attr], content))
+          }
+          return true
+        },
+    }
+  },
+
+  addKeyboardShortcuts(): Record<string, KeyboardShortcutCommand> {
+    if (!this.options.pageNavigationShortcuts) return {}
+    // Jump instantly, like a word processor; unhandled keys keep the browser default
+    const options: GoToPageOptions = { behavior: 'auto' }
+    return {
+      PageDown: () => this.editor.commands.nextPage(options),
+      PageUp: () => this.editor.commands.previousPage(options),
+      'Mod-PageDown': () => this.editor.commands.lastPage(options),
+      'Mod-PageUp': () => this.editor.commands.firstPage(options),
     }
   },
 
   addProseMirrorPlugins() {
     const options = this.options
     const storage = this.storage
+    const defaultConfig = getDefaultPageConfig(options)
     let scheduledUpdate: number | null = null
+    let scheduledVisiblePageUpdate: number | null = null
     let stylesInjected = false
+    const printStylesKey = String(++printStylesCount)
     let isUpdating = false
-    let lastFormat: PageFormatName | PageDimensions | null = null
+    let lastFormat: PageFormatName | PageSizeLengths | null = null
     let lastOrientation: PageOrientation | null = null
+    let lastLayoutKey = ''
+    // Blocks, table rows and nested content pushed to the next page
+    let flowPushes: FlowPushes = { blocks: new Map(), tableRows: new Map(), nested: new Map() }
+    // Top-level blocks starting on an even page with mirrored margins, by
+    // child index like the pushes
+    let mirroredBlocks = new Set<number>()
+    // 0-based page on which each section starts (index = section). Layouts are
+    // derived from the doc on demand, so page setup changes render immediately.
+    let sectionStartPages: number[] = [0]
+    // Page count the print rules were generated for (`{pages}` fallback)
+    let printedPageCount = 0
+    // Value of the `{date}` token, read once per layout pass
+    let headerFooterDate = formatHeaderFooterDate(options)
+    // Sanitized header/footer content, rebuilt when the doc attributes change
+    let headerFooterCache: HeaderFooterCache | null = null
+
+    /**
+     * Header/footer content of the doc. Sanitizing the slot templates is
+     * costly, so it only runs again when the doc attributes (or token values)
+     * change, not on every keystroke or selection change.
+     */
+    function getHeaderFooter(doc: ProseMirrorNode): HeaderFooterRenderContent {
+      if (headerFooterCache?.attrs !== doc.attrs || headerFooterCache.date !== headerFooterDate) {
+        headerFooterCache = {
+          attrs: doc.attrs,
+          date: headerFooterDate,
+          content: getHeaderFooterRenderContent(doc, options, headerFooterDate),
+        }
+      }
+      return headerFooterCache.content
+    }
+
+    /**
+     * Keep the print `@page` rules in sync with the page setup, sections and
+     * headers/footers. The stylesheet is only rewritten when the rules change.
+     */
+    function syncPrintStyles(view: EditorView) {
+      printedPageCount = storage.pageCount
+      updatePrintStyles(createPrintPageRules({
+        sections: getSectionPageConfigs(view.state.doc, getDocumentPageConfig(view.state.doc, defaultConfig)),
+        headerFooter: getHeaderFooter(view.state.doc),
+        displayOptions: getPageNumberDisplayOptions(options),
+        pageCount: storage.pageCount,
+      }), printStylesKey)
+    }
+
+    /**
+     * Track the page of the selection head
+     */
+    function syncCurrentPage(view: EditorView) {
+      const page = findPageForPos(storage.pageBreakPositions, view.state.selection.head)
+      if (page === storage.currentPage) return
+      storage.currentPage = page
+      options.onCurrentPageChange?.(page)
+    }
+
+    /**
+     * Track the page taking up most of the viewport
+     */
+    function syncVisiblePage(view: EditorView) {
+      if (view.isDestroyed) return
+      const config = getDocumentPageConfig(view.state.doc, defaultConfig)
+      const sectionLayouts = getSectionPageConfigs(view.state.doc, config).map(c => getPageLayoutDimensions(c, options.dpi))
+      const geometry = createPageGeometry(sectionLayouts, sectionStartPages, options.pageGap)
+      const editorDom = view.dom as HTMLElement
+      const grid = getPageGrid(storage.viewMode, storage.pagesPerRow, storage.pageLayouts)
+      const page = getMostVisiblePage(editorDom, resolveScrollContainer(editorDom, options), geometry, grid, storage.pageCount)
+      if (page === storage.visiblePage) return
+      storage.visiblePage = page
+      options.onVisiblePageChange?.(page)
+    }
+
+    /**
+     * Lay the pages out side by side (CSS columns on the editor element) in
+     * the spread and grid view modes
+     */
+    function syncViewMode(view: EditorView) {
+      const editorDom = view.dom as HTMLElement
+      const grid = getPageGrid(storage.viewMode, storage.pagesPerRow, storage.pageLayouts)
+      if (!grid) {
+        if (!editorDom.hasAttribute(VIEW_MODE_ATTR)) return
+        editorDom.removeAttribute(VIEW_MODE_ATTR)
+        for (const name of VIEW_MODE_PROPERTIES) editorDom.style.removeProperty(name)
+        return
+      }
+      const [layout] = storage.pageLayouts
+      editorDom.setAttribute(VIEW_MODE_ATTR, storage.viewMode)
+      editorDom.style.setProperty('--ctp-view-columns', String(grid.columns))
+      editorDom.style.setProperty('--ctp-view-column-gap', `${layout.margins.right + options.pageGap + layout.margins.left}px`)
+      editorDom.style.setProperty('--ctp-view-column-height', `${layout.page.height + options.pageGap}px`)
+    }
+
+    /**
+     * Update the visible page at most once per frame while scrolling
+     */
+    function scheduleVisiblePageUpdate(view: EditorView) {
+      if (scheduledVisiblePageUpdate !== null) return
+      scheduledVisiblePageUpdate = requestAnimationFrame(() => {
+        scheduledVisiblePageUpdate = null
+        syncVisiblePage(view)
+      })
+    }
 
     /**
       * Measure content and update page breaks.
@@ -185,12 +777,23 @@ export const Pagination = Extension.create<PaginationOptions, PaginationStorage>
       * while still rendering page-like boundaries.
      */
     function updatePagination(view: EditorView) {
-      // Prevent re-entry
-      if (isUpdating) return
+      // Prevent re-entry, and bail out if a scheduled frame outlived the view
+      if (isUpdating || view.isDestroyed) return
       isUpdating = true
+
+      // The date changes without any transaction: pick it up here, so
+      // overlays follow a new day on the next pass instead of on every render
+      const date = formatHeaderFooterDate(options)
+      const dateChanged = date !== headerFooterDate
+      headerFooterDate = date
+      if (dateChanged) syncPrintStyles(view)
+
+      // Measure in the single-column layout; the view mode is restored before
+      // the frame is painted
+      const restoreViewMode = suspendViewMode(view.dom as HTMLElement)
       
-      const config = storage.pageConfig
-      const layout = getPageLayoutDimensions(config)
+      const config = getDocumentPageConfig(view.state.doc, defaultConfig)
+      const layout = getPageLayoutDimensions(config, options.dpi)
       const pageGap = options.pageGap
 
       // Sync overlay horizontal alignment to actual DOM padding.
@@ -202,58 +805,29 @@ export const Pagination = Extension.create<PaginationOptions, PaginationStorage>
       // Convert those visual measurements back into unscaled layout units.
       const scale = getPageScale(view.dom as HTMLElement)
 
-      // Content area height (page height minus top/bottom margins)
-      const contentHeight = layout.content.height
       const editorDom = view.dom
 
+      // Every section has its own page layout. Measurements are converted with
+      // the geometry currently rendered; page decisions use the new geometry,
+      // which is built while walking the section breaks in document order.
+      const sectionLayouts = getSectionPageConfigs(view.state.doc, config).map(c => getPageLayoutDimensions(c, options.dpi))
+      const renderedGeometry = createPageGeometry(sectionLayouts, sectionStartPages, pageGap)
+
       // Hard page breaks should push subsequent content to the next page.
       // We do this by adding a computed filler `margin-bottom` on the hard break node.
-      // The page count calculation below uses a fixed-point iteration so the overlay
-      // contribution stays consistent and does not explode.
-      const minPageCountFromHardBreaks = applyHardPageBreakSpacing(editorDom, layout, pageGap, scale)
-      
-      // Calculate content height by measuring visual span from first to last content element
-      // This properly accounts for CSS margins between elements
-      const contentChildren = Array.from(editorDom.children).filter(child => {
-        const el = child as HTMLElement
-        return !el.classList.contains(PAGINATION_CONTAINER_CLASS) &&
-               !el.classList.contains(FIRST_PAGE_HEADER_CLASS) &&
-               !el.classList.contains(LAST_PAGE_FOOTER_CLASS) &&
-               !el.hasAttribute(PAGINATION_DATA_ATTR) &&
-               el.id !== PAGINATION_CONTAINER_ID &&
-               el.getAttribute('contenteditable') !== 'false'
-      }) as HTMLElement[]
-      
-      let totalContentHeight = 0
-      
-      if (contentChildren.length > 0) {
-        const editorRect = editorDom.getBoundingClientRect()
-        const firstContent = contentChildren[0]
-        const lastContent = contentChildren[contentChildren.length - 1]
-        
-        const firstTop = (firstContent.getBoundingClientRect().top - editorRect.top) / scale
-        const lastBottom = (lastContent.getBoundingClientRect().bottom - editorRect.top) / scale
-        
-        // Visual span from first content to last content
-        const visualSpan = Math.max(0, Math.round(lastBottom - firstTop))
-        
-        // Get current page count to calculate page break contributions
-        // Page breaks are floated and push content down.
-        // Solve pageCount in: pageCount = ceil((visualSpan - (pageCount-1)*breakerHeight)/contentHeight)
-        // via a short fixed-point iteration (stable for hard-break-induced jumps).
-        const breakerHeight = layout.margins.top + pageGap + layout.margins.bottom
-        let estimate = Math.max(1, storage.pageCount)
-        for (let i = 0; i < 5; i++) {
-          const contribution = Math.max(0, estimate - 1) * breakerHeight
-          const inferred = Math.max(0, visualSpan - contribution)
-          const next = Math.max(1, Math.ceil(inferred / contentHeight))
-          if (next === estimate) break
-          estimate = next
-        }
+      const hardBreaks = applyHardPageBreakSpacing(view, renderedGeometry, sectionLayouts, scale)
+      const geometry = createPageGeometry(sectionLayouts, hardBreaks.sectionStartPages, pageGap)
 
-        const finalContribution = Math.max(0, estimate - 1) * breakerHeight
-        totalContentHeight = Math.max(0, Math.round(visualSpan - finalContribution))
-      }
+      // Single line-measurement pass over the top-level blocks. It decides which
+      // paragraphs have to be pushed whole to the next page (widow/orphan control)
+      // and yields the total content height used for the page count and the
+      // last-page filler.
+      const flow = measureBlockFlow(view, renderedGeometry, geometry, scale, storage.pageCount, flowPushes, {
+        widowOrphanControl: options.widowOrphanControl,
+        minLinesAtBreak: options.minLinesAtBreak,
+      })
+
+      let totalContentHeight = flow.totalContentHeight
       
       // Safety: ensure we have at least some content
       if (totalContentHeight === 0) {
@@ -263,40 +837,69 @@ export const Pagination = Extension.create<PaginationOptions, PaginationStorage>
       // Calculate number of pages based on content
       // NOTE: Hard page breaks can require additional pages even if the current
       // float-based overlays haven't rendered the last break yet.
-      let pageCount = Math.max(1, Math.ceil(totalContentHeight / contentHeight))
-      pageCount = Math.max(pageCount, minPageCountFromHardBreaks)
+      let pageCount = countPagesForContentHeight(geometry, totalContentHeight)
+      pageCount = Math.max(pageCount, hardBreaks.minPageCount)
+
+      // Position-to-page mapping changes whenever text moves between pages,
+      // even if nothing visible has to be rebuilt.
+      const docSize = view.state.doc.content.size
+      const previousBreakPositions = storage.pageBreakPositions
+      storage.pageBreakPositions = resolvePageBreakPositions(flow.pageStarts, pageCount, docSize)
+      const pageRangesChanged = !samePositions(previousBreakPositions, storage.pageBreakPositions)
+      storage.pageRanges = buildPageRanges(storage.pageBreakPositions, docSize)
+      storage.overlayCollisionPositions = flow.overlayCollisions
+      syncCurrentPage(view)
       
       // Check if page count or config actually changed - if not, skip updates
       const configKey = `${config.format}-${config.orientation}`
       const oldConfigKey = `${lastFormat}-${lastOrientation}`
+      const layoutKey = getPageGeometryKey(geometry)
       const pageCountChanged = pageCount !== storage.pageCount
       const contentHeightChanged = totalContentHeight !== storage.measuredContentHeight
       const configChanged = configKey !== oldConfigKey
+      const layoutChanged = layoutKey !== lastLayoutKey
+      const pushesChanged = !sameFlowPushes(flowPushes, flow.pushes)
+      const mirrored = getMirroredBlocks(flow.blockPages, geometry)
+      const mirroredChanged = !sameIndexSet(mirroredBlocks, mirrored)
       
       lastFormat = config.format
       lastOrientation = config.orientation
+      lastLayoutKey = layoutKey
       
-      if (!pageCountChanged && !configChanged && !contentHeightChanged) {
+      if (!pageCountChanged && !configChanged && !contentHeightChanged && !pushesChanged && !layoutChanged && !mirroredChanged && !dateChanged) {
+        // Let transaction listeners (e.g. page thumbnails) pick up the new ranges
+        if (pageRangesChanged) view.dispatch(view.state.tr.setMeta(PAGE_RANGES_META, true))
+        restoreViewMode()
+        syncVisiblePage(view)
         isUpdating = false
         return
       }
       
-      // Store new page count and measured content height
+      // Store new page count, measured content height, sections, pushed and mirrored blocks
       storage.pageCount = pageCount
       storage.measuredContentHeight = totalContentHeight
+      storage.pageLayouts = Array.from({ length: pageCount }, (_, page) => getPageLayout(geometry, page))
+      sectionStartPages = hardBreaks.sectionStartPages
+      flowPushes = flow.pushes
+      mirroredBlocks = mirrored
       options.onPageCountChange?.(pageCount)
+      if (layoutChanged || pageCountChanged) options.onPageLayoutsChange?.(storage.pageLayouts)
       
       // IMPORTANT: Dispatch a transaction to trigger decoration rebuild
       // This ensures the pagination container widget gets updated with new page breaks
       view.dispatch(view.state.tr.setMeta(paginationPluginKey, { pageCount }))
       
       // Set min-height on editor to ensure proper page dimensions
-      // Formula: pageCount * contentHeight + (pageCount - 1) * pageGap + margins.top + margins.bottom
+      // Formula: content height of all pages + (pageCount - 1) * pageGap + margins.top + margins.bottom
       // But since we use float-based positioning, we need enough height for all page breaks
-      const minHeight = pageCount * contentHeight +
+      const lastLayout = getPageLayout(geometry, pageCount - 1)
+      const minHeight = getPageContentStart(geometry, pageCount - 1) + lastLayout.content.height +
                (pageCount - 1) * pageGap +
-               layout.margins.top + layout.margins.bottom
+               layout.margins.top + lastLayout.margins.bottom
       editorDom.style.minHeight = Math.ceil(minHeight) + 'px'
+      restoreViewMode()
+      syncViewMode(view)
+      syncVisiblePage(view)
       
       // Done updating
       isUpdating = false
@@ -335,15 +938,28 @@ export const Pagination = Extension.create<PaginationOptions, PaginationStorage>
         
         props: {
           decorations(state) {
-            const config = storage.pageConfig
-            const layout = getPageLayoutDimensions(config)
+            // Read the doc: storage is only synced after the state is applied
+            const config = getDocumentPageConfig(state.doc, defaultConfig)
+            const layout = getPageLayoutDimensions(config, options.dpi)
             const pageGap = options.pageGap
+            const sectionLayouts = getSectionPageConfigs(state.doc, config).map(c => getPageLayoutDimensions(c, options.dpi))
+            const geometry = createPageGeometry(sectionLayouts, sectionStartPages, pageGap)
+            const geometryKey = getPageGeometryKey(geometry)
             const pageCount = storage.pageCount
             const measuredContentHeight = storage.measuredContentHeight
-            const displayOptions: PageNumberDisplayOptions = {
-              showPageNumbers: options.showPageNumbers,
-              separator: options.pageNumberSeparator,
-              formatPageNumber: options.formatPageNumber,
+            const displayOptions = getPageNumberDisplayOptions(options)
+            const headerFooter = getHeaderFooter(state.doc)
+            const headerFooterKey = getHeaderFooterKey(
+              ...Object.values(headerFooter.variants).flatMap(v => [v.header, v.footer]),
+              headerFooter.tokens
+            )
+
+            // Overlays host editable header/footer slots: ProseMirror must not
+            // handle events or selection inside them.
+            const overlaySpec = { stopEvent: () => true, ignoreSelection: true }
+            const withEditing = (el: HTMLElement, view: EditorView) => {
+              if (options.editableHeaderFooter) enableHeaderFooterEditing(el, view)
+              return el
             }
             
             const decorations: Decoration[] = []
@@ -352,28 +968,102 @@ export const Pagination = Extension.create<PaginationOptions, PaginationStorage>
             // Uses float + margin-top to position breaks at exact pixel locations.
             // IMPORTANT: Key includes pageCount to force widget recreation when page count changes
             decorations.push(
-              Decoration.widget(0, () => createPaginationContainer(
-                layout, pageGap, pageCount, displayOptions
-              ), {
+              Decoration.widget(0, view => withEditing(createPaginationContainer(
+                geometry, pageCount, displayOptions, headerFooter
+              ), view), {
+                ...overlaySpec,
                 side: -1,
-                key: `pagination-container-${pageCount}-${config.format}-${config.orientation}`,
+                key: `pagination-container-${pageCount}-${config.format}-${config.orientation}-${geometryKey}-${headerFooterKey}`,
               })
             )
             
             // First page header
             decorations.push(
-              Decoration.widget(0, () => createFirstPageHeader(layout), {
+              Decoration.widget(0, view => withEditing(
+                createFirstPageHeader(layout, pageCount, displayOptions, headerFooter), view), {
+                ...overlaySpec,
                 side: -1,
-                key: `first-page-header-${config.format}-${config.orientation}`,
+                key: `first-page-header-${pageCount}-${config.format}-${config.orientation}-${headerFooterKey}`,
               })
             )
             
+            // Blocks of sections with a different page width and blocks on
+            // mirrored (even) pages
+            let section = 0
+            state.doc.forEach((node, offset, index) => {
+              const mirrored = mirroredBlocks.has(index)
+              if (section > 0 || mirrored) {
+                const style = getSectionBlockStyle(sectionLayouts[section], layout, mirrored)
+                decorations.push(
+                  Decoration.node(offset, offset + node.nodeSize, {
+                    ...(section > 0 ? { 'data-ctp-section': String(section) } : {}),
+                    ...(mirrored ? { 'data-ctp-mirrored': 'true' } : {}),
+                    ...(style ? { style } : {}),
+                  })
+                )
+              }
+              if (node.type.name === SECTION_BREAK_NODE) section++
+            })
+            
+            // Spacers in front of blocks pushed to the next page
+            state.doc.forEach((_node, offset, index) => {
+              const push = flowPushes.blocks.get(index)
+              if (!push) return
+              decorations.push(
+                Decoration.widget(offset, () => createBlockPushSpacer(push.spacerHeight), {
+                  side: -1,
+                  key: `block-push-${index}-${push.spacerHeight}`,
+                })
+              )
+            })
+            
+            // Table rows pushed to the next page: a spacer row, then the
+            // table's header rows repeated at the top of the new page
+            state.doc.forEach((node, offset, index) => {
+              if (node.type.name !== TABLE_NODE) return
+              node.forEach((_row, rowOffset, rowIndex) => {
+                const push = flowPushes.tableRows.get(getTableRowKey(index, rowIndex))
+                if (!push) return
+                const pos = offset + 1 + rowOffset
+                decorations.push(
+                  Decoration.widget(pos, () => createTableRowSpacer(push.spacerHeight, getTableColumnCount(node)), {
+                    side: -2,
+                    key: `table-row-push-${index}-${rowIndex}-${push.spacerHeight}`,
+                  })
+                )
+                for (let header = 0; header < Math.min(push.headerRows, node.childCount); header++) {
+                  const headerRow = node.child(header)
+                  decorations.push(
+                    Decoration.widget(pos, view => createRepeatedHeaderRow(view, headerRow), {
+                      ...overlaySpec,
+                      side: -1,
+                      key: `table-header-${index}-${rowIndex}-${header}-${JSON.stringify(headerRow.toJSON())}`,
+                    })
+                  )
+                }
+              })
+            })
+            
+            // Spacers in front of content moved below a page overlay
+            for (const [path, push] of flowPushes.nested) {
+              const target = resolveNodePath(state.doc, path)
+              if (!target) continue
+              const inline = target.node.isInline
+              decorations.push(
+                Decoration.widget(target.pos, () => createBlockPushSpacer(push.spacerHeight, inline), {
+                  side: -1,
+                  key: `nested-push-${path}-${push.spacerHeight}-${inline}`,
+                })
+              )
+            }
+            
             // Last page footer - key includes pageCount and content height for proper filler sizing
             decorations.push(
-              Decoration.widget(state.doc.content.size, () => 
-                createLastPageFooter(layout, pageCount, displayOptions, measuredContentHeight), {
+              Decoration.widget(state.doc.content.size, view => withEditing(
+                createLastPageFooter(geometry, pageCount, displayOptions, measuredContentHeight, headerFooter), view), {
+                ...overlaySpec,
                 side: 1,
-                key: `last-page-footer-${pageCount}-${measuredContentHeight}-${config.format}-${config.orientation}`,
+                key: `last-page-footer-${pageCount}-${measuredContentHeight}-${config.format}-${config.orientation}-${geometryKey}-${headerFooterKey}`,
               })
             )
             
@@ -386,19 +1076,45 @@ export const Pagination = Extension.create<PaginationOptions, PaginationStorage>
             injectPaginationStyles()
             stylesInjected = true
           }
+
+          syncPageConfig(storage, editorView.state.doc, options)
+
+          // Until the first measurement, everything is on page 1.
+          storage.pageRanges = buildPageRanges(storage.pageBreakPositions, editorView.state.doc.content.size)
           
+          syncPrintStyles(editorView)
+          syncViewMode(editorView)
           schedulePaginationUpdate(editorView)
+
+          // Scroll events don't bubble: capture them to follow any scroll
+          // container the editor is placed in.
+          const onViewportChange = () => scheduleVisiblePageUpdate(editorView)
+          window.addEventListener('scroll', onViewportChange, { capture: true, passive: true })
+          window.addEventListener('resize', onViewportChange)
           
           return {
-            update(view) {
+            update(view, prevState) {
+              if (view.state.doc !== prevState.doc || storage.pageCount !== printedPageCount) {
+                syncPrintStyles(view)
+              }
+              syncCurrentPage(view)
+              syncViewMode(view)
               schedulePaginationUpdate(view)
             },
             destroy() {
               if (scheduledUpdate !== null) {
                 cancelAnimationFrame(scheduledUpdate)
               }
-              const styleEl = document.getElementById('ctp-pagination-styles')
-              if (styleEl) styleEl.remove()
+              if (scheduledVisiblePageUpdate !== null) {
+                cancelAnimationFrame(scheduledVisiblePageUpdate)
+              }
+              window.removeEventListener('scroll', onViewportChange, { capture: true })
+              window.removeEventListener('resize', onViewportChange)
+              if (stylesInjected) {
+                releasePaginationStyles()
+                stylesInjected = false
+              }
+              removePrintStyles(printStylesKey)
             },
           }
         },
@@ -407,6 +1123,75 @@ export const Pagination = Extension.create<PaginationOptions, PaginationStorage>
   },
 })
 
+/**
+ * Page Setup Attributes
+ *
+ * The document-level page format, orientation, margins and binding are stored
+ * on the doc node, so they are saved with the content (getJSON) and undoable.
+ */
+
+export const PAGE_FORMAT_ATTR = 'pageFormat'
+export const PAGE_ORIENTATION_ATTR = 'pageOrientation'
+export const PAGE_MARGINS_ATTR = 'pageMargins'
+export const PAGE_MIRROR_MARGINS_ATTR = 'pageMirrorMargins'
+export const PAGE_GUTTER_ATTR = 'pageGutter'
+
+/**
+ * Read the page setup stored on the doc node. Missing or invalid values fall
+ * back to the given defaults (usually the extension options).
+ */
+export function getDocumentPageConfig(doc: ProseMirrorNode, defaults: PageConfig): PageConfig {
+  const format = normalizePageFormat(doc.attrs[PAGE_FORMAT_ATTR]) ?? defaults.format
+  const orientation = doc.attrs[PAGE_ORIENTATION_ATTR]
+  const mirrorMargins = doc.attrs[PAGE_MIRROR_MARGINS_ATTR]
+  return createPageConfig(
+    format,
+    orientation === 'portrait' || orientation === 'landscape' ? orientation : defaults.orientation,
+    normalizePageMargins(doc.attrs[PAGE_MARGINS_ATTR]),
+    {
+      mirrorMargins: typeof mirrorMargins === 'boolean' ? mirrorMargins : defaults.mirrorMargins,
+      gutter: doc.attrs[PAGE_GUTTER_ATTR] ?? defaults.gutter,
+    }
+  )
+}
+
+function getDefaultPageConfig(options: PaginationOptions): PageConfig {
+  return createPageConfig(options.pageFormat, options.orientation, options.margins, options)
+}
+
+function isSamePageConfig(a: PageConfig, b: PageConfig): boolean {
+  return a.orientation === b.orientation &&
+    !!a.mirrorMargins === !!b.mirrorMargins &&
+    a.gutter === b.gutter &&
+    JSON.stringify(a.format) === JSON.stringify(b.format) &&
+    JSON.stringify(a.margins) === JSON.stringify(b.margins)
+}
+
+function getPageNumberDisplayOptions(options: PaginationOptions): PageNumberDisplayOptions {
+  return {
+    showPageNumbers: options.showPageNumbers,
+    separator: options.pageNumberSeparator,
+    formatPageNumber: options.formatPageNumber,
+    style: options.pageNumberStyle,
+    startNumber: options.pageNumberStart,
+    position: options.pageNumberPosition,
+  }
+}
+
+function formatHeaderFooterDate(options: PaginationOptions): string {
+  return options.formatDate ? options.formatDate(new Date()) : new Date().toLocaleDateString()
+}
+
+function getHeaderFooterRenderContent(doc: ProseMirrorNode, options: PaginationOptions, date: string): HeaderFooterRenderContent {
+  return resolveHeaderFooterRenderContent(doc.attrs, options, { date, title: options.documentTitle })
+}
+
+function syncPageConfig(storage: PaginationStorage, doc: ProseMirrorNode, options: PaginationOptions) {
+  const config = getDocumentPageConfig(doc, getDefaultPageConfig(options))
+  // Keep the object identity when nothing changed, so consumers can compare
+  if (!isSamePageConfig(storage.pageConfig, config)) storage.pageConfig = config
+}
+
 function getPageScale(editorDom: HTMLElement): number {
   const wrapper = editorDom.closest<HTMLElement>('.page-wrapper-page')
   if (!wrapper) return 1
@@ -417,6 +1202,124 @@ function getPageScale(editorDom: HTMLElement): number {
   return value
 }
 
+const VIEW_MODE_PROPERTIES = ['--ctp-view-columns', '--ctp-view-column-gap', '--ctp-view-column-height']
+
+/**
+ * Switch a multi-page view back to one column. The columns rearrange the
+ * block boxes, so measurements are only valid in the single-column layout.
+ * Returns the function restoring the view mode.
+ */
+function suspendViewMode(editorDom: HTMLElement): () => void {
+  const mode = editorDom.getAttribute(VIEW_MODE_ATTR)
+  if (mode === null) return () => {}
+  editorDom.removeAttribute(VIEW_MODE_ATTR)
+  return () => editorDom.setAttribute(VIEW_MODE_ATTR, mode)
+}
+
+/**
+ * Nearest scrollable ancestor of the editor, or null for the window
+ */
+function findScrollContainer(element: HTMLElement): HTMLElement | null {
+  for (let el = element.parentElement; el; el = el.parentElement) {
+    const { overflowY } = getComputedStyle(el)
+    if (/auto|scroll|overlay/.test(overflowY) && el.scrollHeight > el.clientHeight) return el
+  }
+  return null
+}
+
+function resolveScrollContainer(editorDom: HTMLElement, options: Pick<PaginationOptions, 'scrollContainer'>): HTMLElement | null {
+  return options.scrollContainer?.() ?? findScrollContainer(editorDom)
+}
+
+/** Viewport-relative bounds of the scroll container (null = the window) */
+function getViewportBounds(container: HTMLElement | null): { top: number; bottom: number } {
+  return container ? container.getBoundingClientRect() : { top: 0, bottom: window.innerHeight }
+}
+
+/**
+ * Scroll a (1-based) page into view. Page positions follow from the page
+ * layouts: every page (or row of pages side by side) is as tall as its
+ * layout, followed by the page gap.
+ */
+function scrollToPage(
+  editorDom: HTMLElement,
+  container: HTMLElement | null,
+  storage: Pick<PaginationStorage, 'pageLayouts' | 'viewMode' | 'pagesPerRow'>,
+  pageGap: number,
+  pageNumber: number,
+  options: Pick<GoToPageOptions, 'behavior' | 'block'>
+) {
+  const { pageLayouts } = storage
+  const scale = getPageScale(editorDom)
+  const grid = getPageGrid(storage.viewMode, storage.pagesPerRow, pageLayouts)
+  let offset = 0
+  if (grid) {
+    // Uniform pages: every row is one page tall
+    offset = getPageGridCell(grid, pageNumber - 1).row * (pageLayouts[0].page.height + pageGap)
+  } else {
+    for (let page = 0; page < pageNumber - 1; page++) offset += pageLayouts[page].page.height + pageGap
+  }
+  const top = editorDom.getBoundingClientRect().top + offset * scale
+  const bottom = top + pageLayouts[pageNumber - 1].page.height * scale
+  const viewport = getViewportBounds(container)
+
+  let delta: number
+  switch (options.block ?? 'start') {
+    case 'end':
+      delta = bottom - viewport.bottom
+      break
+    case 'center':
+      delta = (top + bottom) / 2 - (viewport.top + viewport.bottom) / 2
+      break
+    case 'nearest':
+      // Already fully visible: stay; otherwise align the closest edge
+      if (top >= viewport.top && bottom <= viewport.bottom) delta = 0
+      else if (top < viewport.top || bottom - top > viewport.bottom - viewport.top) delta = top - viewport.top
+      else delta = bottom - viewport.bottom
+      break
+    default:
+      delta = top - viewport.top
+  }
+  if (delta === 0) return
+
+  const scroll: ScrollToOptions = { top: delta, behavior: options.behavior ?? 'smooth' }
+  if (container) container.scrollBy(scroll)
+  else window.scrollBy(scroll)
+}
+
+/**
+ * 1-based page with the largest visible area in the scroll container (ties go
+ * to the earlier page)
+ */
+function getMostVisiblePage(
+  editorDom: HTMLElement,
+  container: HTMLElement | null,
+  geometry: PageGeometry,
+  grid: PageGrid | null,
+  pageCount: number
+): number {
+  const viewport = getViewportBounds(container)
+  const scale = getPageScale(editorDom)
+  const editorTop = editorDom.getBoundingClientRect().top
+
+  let mostVisible = 1
+  let mostVisibleHeight = 0
+  for (let page = 0; page < pageCount; page++) {
+    const layout = getPageLayout(geometry, page)
+    const top = grid
+      ? editorTop + getPageGridCell(grid, page).row * (layout.page.height + geometry.pageGap) * scale
+      : editorTop + (getPageVisualTop(geometry, page) - layout.margins.top) * scale
+    if (top >= viewport.bottom) break
+    const bottom = top + layout.page.height * scale
+    const visibleHeight = Math.min(bottom, viewport.bottom) - Math.max(top, viewport.top)
+    if (visibleHeight > mostVisibleHeight) {
+      mostVisible = page + 1
+      mostVisibleHeight = visibleHeight
+    }
+  }
+  return mostVisible
+}
+
 function parsePx(value: string | null | undefined): number | null {
   if (!value) return null
   const n = parseFloat(value)
@@ -468,6 +1371,726 @@ function syncOverlayHorizontalInsets(view: EditorView, layout: PageLayoutDimensi
   editorDom.style.setProperty('--ctp-overlay-offset-right', `${right}px`)
 }
 
+/**
+ * Page geometry
+ *
+ * Consecutive pages sharing a layout form a run (one per section). Within a
+ * run every page has the same stride (content + footer + gap + header); the
+ * last run repeats for all following pages, so positions past the last
+ * rendered page still resolve while the document grows.
+ */
+interface PageRun {
+  /** 0-based index of the run's first page */
+  startPage: number
+  layout: PageLayoutDimensions
+  /** Visual top of the run's first content area (relative to the editor top) */
+  visualTop: number
+  /** Content-only offset of the run's first content area */
+  contentStart: number
+}
+
+interface PageGeometry {
+  runs: PageRun[]
+  pageGap: number
+}
+
+function getPageStride(layout: PageLayoutDimensions, pageGap: number): number {
+  return layout.content.height + layout.margins.bottom + pageGap + layout.margins.top
+}
+
+/**
+ * Build the geometry from the section layouts and the pages the sections start
+ * on. Sections without a (valid) start page yet are left out until measured.
+ */
+function createPageGeometry(
+  sectionLayouts: PageLayoutDimensions[],
+  sectionStartPages: number[],
+  pageGap: number
+): PageGeometry {
+  const runs: PageRun[] = []
+  const count = Math.min(sectionLayouts.length, sectionStartPages.length)
+  for (let section = 0; section < count; section++) {
+    const layout = sectionLayouts[section]
+    const previous = runs[runs.length - 1]
+    if (!previous) {
+      runs.push({ startPage: 0, layout, visualTop: layout.margins.top, contentStart: 0 })
+      continue
+    }
+    const startPage = sectionStartPages[section]
+    if (!(startPage > previous.startPage)) break
+    const pages = startPage - previous.startPage
+    const { content, margins } = previous.layout
+    runs.push({
+      startPage,
+      layout,
+      visualTop: previous.visualTop + (pages - 1) * getPageStride(previous.layout, pageGap) +
+        content.height + margins.bottom + pageGap + layout.margins.top,
+      contentStart: previous.contentStart + pages * content.height,
+    })
+  }
+  return { runs, pageGap }
+}
+
+function findPageRun(geometry: PageGeometry, page: number): PageRun {
+  const { runs } = geometry
+  let index = 0
+  while (index + 1 < runs.length && runs[index + 1].startPage <= page) index++
+  return runs[index]
+}
+
+/** Layout of a 0-based page */
+function getPageLayout(geometry: PageGeometry, page: number): PageLayoutDimensions {
+  return findPageRun(geometry, page).layout
+}
+
+/** Visual top of a 0-based page's content area */
+function getPageVisualTop(geometry: PageGeometry, page: number): number {
+  const run = findPageRun(geometry, page)
+  return run.visualTop + (page - run.startPage) * getPageStride(run.layout, geometry.pageGap)
+}
+
+/** Content-only offset of a 0-based page's content area */
+function getPageContentStart(geometry: PageGeometry, page: number): number {
+  const run = findPageRun(geometry, page)
+  return run.contentStart + (page - run.startPage) * run.layout.content.height
+}
+
+/**
+ * 0-based page containing a position, using either visual or content-only
+ * coordinates. A page owns everything from its content top to the next page's.
+ */
+function findPageAt(geometry: PageGeometry, y: number, coordinates: 'visual' | 'content'): number {
+  const { runs } = geometry
+  let index = 0
+  const runStart = (run: PageRun) => (coordinates === 'visual' ? run.visualTop : run.contentStart)
+  while (index + 1 < runs.length && runStart(runs[index + 1]) <= y) index++
+
+  const run = runs[index]
+  const size = coordinates === 'visual' ? getPageStride(run.layout, geometry.pageGap) : run.layout.content.height
+  if (size <= 0 || y <= runStart(run)) return run.startPage
+  const page = run.startPage + Math.floor((y - runStart(run)) / size)
+  const next = runs[index + 1]
+  return next ? Math.min(page, next.startPage - 1) : page
+}
+
+/**
+ * Number of pages needed for a content-only height
+ */
+function countPagesForContentHeight(geometry: PageGeometry, height: number): number {
+  const page = findPageAt(geometry, height, 'content')
+  return getPageContentStart(geometry, page) >= height ? Math.max(1, page) : page + 1
+}
+
+/**
+ * Short key describing the page runs, used to detect layout changes and in
+ * widget keys.
+ */
+function getPageGeometryKey(geometry: PageGeometry): string {
+  return geometry.runs
+    .map(({ startPage, layout: { page, margins, mirrorMargins } }) =>
+      `${startPage}:${page.width}x${page.height}:${margins.top},${margins.right},${margins.bottom},${margins.left}` +
+      (mirrorMargins ? ':mirror' : '')
+    )
+    .join('|')
+}
+
+/**
+ * Convert a visual Y offset (relative to the editor top) into a content-only
+ * coordinate, i.e. the offset within the stacked writable areas of all pages.
+ *
+ * Overlay regions (footer + gap + header) of the first `renderedPageCount - 1`
+ * breaks are clamped out. Past the last rendered break the content simply keeps
+ * flowing, so the page count can grow before the next break is rendered.
+ */
+function toContentOnlyY(
+  visualY: number,
+  geometry: PageGeometry,
+  renderedPageCount = Infinity
+): number {
+  if (visualY <= geometry.runs[0].visualTop) return 0
+
+  const page = Math.min(findPageAt(geometry, visualY, 'visual'), Math.max(0, renderedPageCount - 1))
+  const within = visualY - getPageVisualTop(geometry, page)
+  const isLastRenderedPage = page >= renderedPageCount - 1
+  const contentHeight = getPageLayout(geometry, page).content.height
+  return getPageContentStart(geometry, page) + (isLastRenderedPage ? within : Math.min(within, contentHeight))
+}
+
+function getLineHeight(el: HTMLElement): number {
+  const cs = getComputedStyle(el)
+  const fontSize = parsePx(cs.fontSize) ?? 16
+  const raw = (cs.lineHeight || '').trim()
+  const value = parsePx(raw)
+  if (value === null || value <= 0) return fontSize * 1.2
+  // Unitless line-height is relative to the font size
+  return raw.endsWith('px') ? value : value * fontSize
+}
+
+function samePositions(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((pos, index) => pos === b[index])
+}
+
+function sameIndexSet(a: Set<number>, b: Set<number>): boolean {
+  if (a.size !== b.size) return false
+  for (const index of a) {
+    if (!b.has(index)) return false
+  }
+  return true
+}
+
+/**
+ * Top-level blocks (child indices) starting on a page whose side margins are
+ * swapped by mirror margins
+ */
+function getMirroredBlocks(blockPages: number[], geometry: PageGeometry): Set<number> {
+  const blocks = new Set<number>()
+  blockPages.forEach((page, index) => {
+    if (isMirroredPage(getPageLayout(geometry, page), page + 1)) blocks.add(index)
+  })
+  return blocks
+}
+
+function sameBlockPushes<K>(a: Map<K, BlockPush>, b: Map<K, BlockPush>): boolean {
+  if (a.size !== b.size) return false
+  for (const [index, push] of a) {
+    const other = b.get(index)
+    if (!other || other.offset !== push.offset || other.spacerHeight !== push.spacerHeight) return false
+  }
+  return true
+}
+
+function sameTableRowPushes(a: Map<string, TableRowPush>, b: Map<string, TableRowPush>): boolean {
+  if (!sameBlockPushes(a, b)) return false
+  for (const [key, push] of a) {
+    if (b.get(key)?.headerRows !== push.headerRows) return false
+  }
+  return true
+}
+
+function sameFlowPushes(a: FlowPushes, b: FlowPushes): boolean {
+  return sameBlockPushes(a.blocks, b.blocks) &&
+    sameTableRowPushes(a.tableRows, b.tableRows) &&
+    sameBlockPushes(a.nested, b.nested)
+}
+
+/**
+ * Child indices leading from the doc to the node at `pos`, e.g. `2.0.1`
+ */
+function getNodePath(doc: ProseMirrorNode, pos: number): string {
+  const $pos = doc.resolve(pos)
+  const path: number[] = []
+  for (let depth = 0; depth <= $pos.depth; depth++) path.push($pos.index(depth))
+  return path.join('.')
+}
+
+function resolveNodePath(doc: ProseMirrorNode, path: string): { node: ProseMirrorNode; pos: number } | null {
+  let parent = doc
+  let contentStart = 0
+  let target: { node: ProseMirrorNode; pos: number } | null = null
+  for (const part of path.split('.')) {
+    const index = Number(part)
+    if (!Number.isInteger(index) || index < 0 || index >= parent.childCount) return null
+    let pos = contentStart
+    for (let i = 0; i < index; i++) pos += parent.child(i).nodeSize
+    target = { node: parent.child(index), pos }
+    parent = target.node
+    contentStart = pos + 1
+  }
+  return target
+}
+
+/**
+ * Content that can't wrap below a page overlay, so the overlay would paint
+ * over it: atoms (images, embeds), code blocks and non-editable node views.
+ * Line breaks and page/section breaks are left out.
+ */
+function isOverlaySensitive(node: ProseMirrorNode, dom: HTMLElement): boolean {
+  if (node.isText || node.type.spec.linebreakReplacement) return false
+  if (node.type.name === PAGE_BREAK_NODE || node.type.name === SECTION_BREAK_NODE) return false
+  return node.isAtom || !!node.type.spec.code || dom.getAttribute('contenteditable') === 'false'
+}
+
+function getTableRowKey(tableIndex: number, rowIndex: number): string {
+  return `${tableIndex}:${rowIndex}`
+}
+
+/**
+ * Number of leading rows made of header cells only. A table without body rows
+ * has nothing to repeat them above.
+ */
+function getHeaderRowCount(table: ProseMirrorNode): number {
+  let count = 0
+  while (count < table.childCount) {
+    const row = table.child(count)
+    let isHeader = row.childCount > 0
+    row.forEach(cell => {
+      if (cell.type.name !== TABLE_HEADER_NODE) isHeader = false
+    })
+    if (!isHeader) break
+    count++
+  }
+  return count < table.childCount ? count : 0
+}
+
+function getTableColumnCount(table: ProseMirrorNode): number {
+  let columns = 0
+  if (table.firstChild) table.firstChild.forEach(cell => (columns += cell.attrs.colspan ?? 1))
+  return Math.max(1, columns)
+}
+
+/**
+ * Line-measurement pass (screen)
+ *
+ * Walks the top-level blocks in document order and converts their rects into
+ * content-only coordinates. A textblock crossing a page boundary that would
+ * leave fewer than `minLinesAtBreak` lines at the bottom of the page (orphan)
+ * or at the top of the next one (widow) is pushed whole to the next page, as
+ * is a block with `pageBreakBefore` that doesn't start a page already.
+ *
+ * Break control attributes push whole blocks too: a `keepTogether` block that
+ * would straddle a break, and a run of `keepWithNext` blocks that would be
+ * separated from the first line of the block following it. Blocks taller than
+ * a page (or runs that can't fit on one) are left to flow.
+ *
+ * Tables break between rows instead (see `measureTableRows`); a table only
+ * moves whole when its header rows and first body row would be separated.
+ *
+ * Boundary safety: content that can't wrap below the page overlays (see
+ * `isOverlaySensitive`) and crosses a break is moved below the overlay, as a
+ * whole block or inside its block (see `measureOverlayCollisions`). Its
+ * positions are reported as `overlayCollisions`.
+ *
+ * Like the hard break spacing, positions are measured in the current layout and
+ * corrected for the pushes applied before (our own spacer is removed, shifts
+ * caused by decisions for earlier blocks are added), so repeated passes settle
+ * instead of oscillating.
+ */
+function measureBlockFlow(
+  view: EditorView,
+  renderedGeometry: PageGeometry,
+  geometry: PageGeometry,
+  scale: number,
+  renderedPageCount: number,
+  current: FlowPushes,
+  options: Pick<PaginationOptions, 'widowOrphanControl' | 'minLinesAtBreak'>
+): {
+  totalContentHeight: number
+  pushes: FlowPushes
+  overlayCollisions: number[]
+  pageStarts: number[]
+  blockPages: number[]
+} {
+  const editorRect = view.dom.getBoundingClientRect()
+  const minLines = Math.max(1, Math.floor(options.minLinesAtBreak))
+  const toContentY = (y: number) => toContentOnlyY(y, renderedGeometry, renderedPageCount)
+
+  const pushes: FlowPushes = { blocks: new Map(), tableRows: new Map(), nested: new Map() }
+  const overlayCollisions: number[] = []
+  // Sparse: first document position on each page (index = 0-based page)
+  const pageStarts: number[] = [0]
+  // 0-based page each top-level block starts on (index = child index)
+  const blockPages: number[] = []
+  let cumulativeDeltaShift = 0
+  let lastBottom = 0
+  let previousDom: HTMLElement | null = null
+  let previousNode: ProseMirrorNode | null = null
+  const { doc } = view.state
+
+  doc.forEach((node, offset, index) => {
+    const dom = view.nodeDOM(offset)
+    if (!(dom instanceof HTMLElement)) return
+
+    const rect = dom.getBoundingClientRect()
+    const visualTop = (rect.top - editorRect.top) / scale
+    const visualBottom = (rect.bottom - editorRect.top) / scale
+    const currentOffset = current.blocks.get(index)?.offset ?? 0
+    const naturalVisualTop = visualTop - currentOffset + cumulativeDeltaShift
+    const top = toContentY(naturalVisualTop)
+
+    const pageIndex = findPageAt(geometry, top, 'content')
+    const contentHeight = getPageLayout(geometry, pageIndex).content.height
+    const pageStart = getPageContentStart(geometry, pageIndex)
+    const pageEnd = pageStart + contentHeight
+
+    // Content-only height does not depend on whether the block currently
+    // straddles a break (overlay regions are clamped out). Content that can't
+    // wrap keeps its full height, unless it can't fit on a page anyway.
+    const overlaySensitive = isOverlaySensitive(node, dom)
+    const visualHeight = Math.max(0, visualBottom - visualTop)
+    const blockHeight = overlaySensitive && visualHeight <= contentHeight
+      ? visualHeight
+      : Math.max(0, toContentY(visualBottom) - toContentY(visualTop))
+    let bottom = top + blockHeight
+
+    // Move the block to the top of the next page
+    const pushToNextPage = (): BlockPush => {
+      const targetVisualTop = getPageVisualTop(geometry, pageIndex + 1)
+      const pushOffset = Math.ceil(targetVisualTop - naturalVisualTop)
+      // The spacer separates the block from its previous sibling, so their
+      // margins no longer collapse into each other.
+      const collapsed = previousDom
+        ? Math.min(
+            parsePx(getComputedStyle(previousDom).marginBottom) ?? 0,
+            parsePx(getComputedStyle(dom).marginTop) ?? 0
+          )
+        : 0
+      bottom = pageEnd + blockHeight
+      return {
+        offset: pushOffset,
+        spacerHeight: Math.max(0, Math.ceil(pushOffset - Math.max(0, collapsed))),
+      }
+    }
+
+    const startsInsidePage = top - pageStart > 0.5
+    const crossesBreak = contentHeight > 0 && blockHeight <= contentHeight && bottom - pageEnd > 0.5 && startsInsidePage
+
+    let push: BlockPush | null = null
+    if (node.attrs.pageBreakBefore && contentHeight > 0 && startsInsidePage) {
+      // `page-break-before` from imported content: start a new page unless
+      // the block already starts one.
+      push = pushToNextPage()
+    }
+
+    if (!push && node.attrs.keepWithNext && !previousNode?.attrs.keepWithNext && contentHeight > 0 && startsInsidePage) {
+      // Head of a keep-with-next run: measure the run up to the first line of
+      // the block it is kept with, at its natural position.
+      let lastIndex = index
+      let lastOffset = offset
+      let runOffset = currentOffset
+      while (doc.child(lastIndex).attrs.keepWithNext && lastIndex + 1 < doc.childCount) {
+        lastOffset += doc.child(lastIndex).nodeSize
+        lastIndex++
+        runOffset += current.blocks.get(lastIndex)?.offset ?? 0
+      }
+      const nextDom = lastIndex > index ? view.nodeDOM(lastOffset) : null
+      if (nextDom instanceof HTMLElement) {
+        const nextRect = nextDom.getBoundingClientRect()
+        const nextVisualTop = (nextRect.top - editorRect.top) / scale
+        const nextVisualBottom = (nextRect.bottom - editorRect.top) / scale
+        const nextHeight = Math.max(0, toContentY(nextVisualBottom) - toContentY(nextVisualTop))
+        const nextTop = toContentY(nextVisualTop - runOffset + cumulativeDeltaShift)
+        const keepEnd = nextTop + Math.min(nextHeight, getLineHeight(nextDom))
+
+        if (keepEnd - pageEnd > 0.5 && keepEnd - top <= contentHeight) {
+          push = pushToNextPage()
+        }
+      }
+    }
+
+    // Keep-together blocks, and content the overlay would paint over, move
+    // whole when they cross a break
+    if (!push && (node.attrs.keepTogether || overlaySensitive) && crossesBreak) {
+      push = pushToNextPage()
+    }
+    if (push && overlaySensitive && crossesBreak) overlayCollisions.push(offset)
+
+    if (!push && node.type.name === TABLE_NODE && contentHeight > 0 && startsInsidePage) {
+      // The header rows stay with the first body row: if they would be
+      // separated, the whole table starts on the next page.
+      const keptRows = getHeaderRowCount(node) + 1
+      let keptOffset = offset + 1
+      for (let row = 0; row < keptRows - 1; row++) keptOffset += node.child(row).nodeSize
+      const keptDom = view.nodeDOM(keptOffset)
+      if (keptDom instanceof HTMLElement) {
+        const keptVisualBottom = (keptDom.getBoundingClientRect().bottom - editorRect.top) / scale
+        const keepEnd = toContentY(keptVisualBottom - currentOffset + cumulativeDeltaShift)
+        if (keepEnd - pageEnd > 0.5 && keepEnd - top <= contentHeight) push = pushToNextPage()
+      }
+    }
+
+    if (!push && options.widowOrphanControl && node.isTextblock && contentHeight > 0 && blockHeight <= contentHeight) {
+      // Only blocks that start inside a page and cross its end are candidates.
+      if (bottom - pageEnd > 0.5 && startsInsidePage) {
+        const lineHeight = getLineHeight(dom)
+        const lines = Math.max(1, Math.round(blockHeight / lineHeight))
+        const linesBefore = Math.min(lines, Math.floor((pageEnd - top) / lineHeight))
+        const linesAfter = lines - linesBefore
+
+        if (linesBefore < minLines || linesAfter < minLines) {
+          push = pushToNextPage()
+        }
+      }
+    }
+
+    if (push) pushes.blocks.set(index, push)
+
+    const measure = {
+      editorTop: editorRect.top,
+      scale,
+      toContentY,
+      shift: cumulativeDeltaShift + (push?.offset ?? 0) - currentOffset,
+    }
+    const tableRows = node.type.name === TABLE_NODE
+      ? measureTableRows(view, node, offset, index, geometry, current.tableRows, measure)
+      : null
+    if (tableRows) {
+      for (const [key, rowPush] of tableRows.pushes) pushes.tableRows.set(key, rowPush)
+      if (tableRows.bottom !== null) bottom = tableRows.bottom
+    }
+    const collisions = !tableRows && !overlaySensitive
+      ? measureOverlayCollisions(view, node, offset, geometry, current.nested, measure)
+      : null
+    if (collisions) {
+      for (const [key, nestedPush] of collisions.pushes) pushes.nested.set(key, nestedPush)
+      overlayCollisions.push(...collisions.positions)
+      bottom += collisions.contentDelta
+    }
+
+    if (contentHeight > 0) {
+      const blockTop = push ? pageEnd : top
+      const firstPage = findPageAt(geometry, blockTop, 'content')
+      const lastPage = Math.max(firstPage, countPagesForContentHeight(geometry, bottom) - 1)
+      blockPages[index] = firstPage
+      if (pageStarts[firstPage] === undefined) pageStarts[firstPage] = offset
+      // Pages starting with a table row or content moved to the next page
+      for (const [page, pos] of [...(tableRows?.pageStarts ?? []), ...(collisions?.pageStarts ?? [])]) {
+        if (pageStarts[page] === undefined) pageStarts[page] = pos
+      }
+      // Pages that begin inside this block (a paragraph flowing over a break)
+      // Visual positions are resolved against the current (measured) layout,
+      // which differs from the final one by the shifts decided in this pass.
+      const pendingShift = cumulativeDeltaShift + (push?.offset ?? 0) - currentOffset
+      for (let page = firstPage + 1; page <= lastPage; page++) {
+        if (pageStarts[page] !== undefined) continue
+        const pageVisualTop = getPageVisualTop(renderedGeometry, page) - pendingShift
+        const fraction = (getPageContentStart(geometry, page) - blockTop) / Math.max(1, blockHeight)
+        pageStarts[page] = findPosAtPageStart(
+          view, node, offset, rect, editorRect, scale, pageVisualTop, fraction
+        )
+      }
+    }
+
+    cumulativeDeltaShift += (push?.offset ?? 0) - currentOffset + (tableRows?.delta ?? 0) + (collisions?.delta ?? 0)
+    lastBottom = Math.max(lastBottom, bottom)
+    previousDom = dom
+    previousNode = node
+  })
+
+  return { totalContentHeight: Math.max(0, Math.round(lastBottom)), pushes, overlayCollisions, pageStarts, blockPages }
+}
+
+/**
+ * Boundary-safety pass over the content of a top-level block (part of the
+ * line-measurement pass)
+ *
+ * Text lines wrap below the breakers of `createPaginationContainer`, but
+ * content that can't wrap is painted over by the opaque footer/gap/header when
+ * it crosses a page boundary. Such content is moved to the top of the next
+ * page by a spacer in front of it, unless it is taller than a page. Tables are
+ * left to their row breaks.
+ *
+ * Measured like table rows: `shift` is the pending shift of the block, the
+ * returned `delta` adds the shift caused by the moves and `contentDelta` the
+ * resulting change of the block's content-only height.
+ */
+function measureOverlayCollisions(
+  view: EditorView,
+  block: ProseMirrorNode,
+  offset: number,
+  geometry: PageGeometry,
+  currentPushes: Map<string, BlockPush>,
+  measure: { editorTop: number; scale: number; toContentY: (y: number) => number; shift: number }
+): {
+  pushes: Array<[string, BlockPush]>
+  positions: number[]
+  pageStarts: Array<[number, number]>
+  delta: number
+  contentDelta: number
+} {
+  const { editorTop, scale, toContentY, shift } = measure
+  const pushes: Array<[string, BlockPush]> = []
+  const positions: number[] = []
+  const pageStarts: Array<[number, number]> = []
+  let delta = 0
+  let contentDelta = 0
+
+  block.descendants((node, relativePos, parent, index) => {
+    if (node.type.name === TABLE_NODE) return false
+    const pos = offset + 1 + relativePos
+    const dom = view.nodeDOM(pos)
+    if (!(dom instanceof HTMLElement) || !isOverlaySensitive(node, dom)) return true
+
+    const key = getNodePath(view.state.doc, pos)
+    const currentOffset = currentPushes.get(key)?.offset ?? 0
+    const rect = dom.getBoundingClientRect()
+    const height = Math.max(0, (rect.bottom - rect.top) / scale)
+    const naturalVisualTop = (rect.top - editorTop) / scale - currentOffset + shift + delta
+    const top = toContentY(naturalVisualTop)
+
+    const page = findPageAt(geometry, top, 'content')
+    const contentHeight = getPageLayout(geometry, page).content.height
+    const pageStart = getPageContentStart(geometry, page)
+    const pageEnd = pageStart + contentHeight
+
+    let push: BlockPush | null = null
+    if (contentHeight > 0 && height <= contentHeight && top - pageStart > 0.5 && top + height - pageEnd > 0.5) {
+      const pushOffset = Math.ceil(getPageVisualTop(geometry, page + 1) - naturalVisualTop)
+      // Like top-level blocks, a block loses the margin collapsed with its
+      // previous sibling
+      const previous = node.isBlock && parent && index > 0 ? view.nodeDOM(pos - parent.child(index - 1).nodeSize) : null
+      const collapsed = previous instanceof HTMLElement
+        ? Math.min(parsePx(getComputedStyle(previous).marginBottom) ?? 0, parsePx(getComputedStyle(dom).marginTop) ?? 0)
+        : 0
+      push = { offset: pushOffset, spacerHeight: Math.max(0, Math.ceil(pushOffset - Math.max(0, collapsed))) }
+      pushes.push([key, push])
+      positions.push(pos)
+      pageStarts.push([page + 1, pos])
+    }
+
+    // Content-only space taken by the new and the current spacer
+    const moved = push ? toContentY(naturalVisualTop + push.offset) - top : 0
+    const wasMoved = currentOffset ? toContentY(naturalVisualTop + currentOffset) - top : 0
+    contentDelta += moved - wasMoved
+    delta += (push?.offset ?? 0) - currentOffset
+    return false
+  })
+
+  return { pushes, positions, pageStarts, delta, contentDelta }
+}
+
+/**
+ * Row breaks of a top-level table (part of the line-measurement pass)
+ *
+ * A body row crossing a page boundary is moved to the top of the next page,
+ * below a copy of the table's header rows, so the table breaks between rows
+ * where the breakers of `createPaginationContainer` fall. Rows that don't fit
+ * on a page (with the repeated header) are left to split across the break.
+ *
+ * Rows are measured like blocks: `shift` is the pending shift of the table
+ * (decisions for earlier blocks and the table itself), the returned `delta`
+ * adds the shift caused by the row decisions. `bottom` is only set when rows
+ * are (or were) moved, as the table's own height then includes the spacers.
+ */
+function measureTableRows(
+  view: EditorView,
+  table: ProseMirrorNode,
+  offset: number,
+  index: number,
+  geometry: PageGeometry,
+  currentRowPushes: Map<string, TableRowPush>,
+  measure: { editorTop: number; scale: number; toContentY: (y: number) => number; shift: number }
+): { pushes: Array<[string, TableRowPush]>; pageStarts: Array<[number, number]>; bottom: number | null; delta: number } {
+  const { editorTop, scale, toContentY, shift } = measure
+  const headerRows = getHeaderRowCount(table)
+  const pushes: Array<[string, TableRowPush]> = []
+  // First document position of the pages starting with a moved row
+  const pageStarts: Array<[number, number]> = []
+  let headerHeight = 0
+  let bottom = 0
+  let delta = 0
+  let hasPushes = false
+
+  table.forEach((_row, rowOffset, rowIndex) => {
+    const rowPos = offset + 1 + rowOffset
+    const dom = view.nodeDOM(rowPos)
+    if (!(dom instanceof HTMLElement)) return
+
+    const key = getTableRowKey(index, rowIndex)
+    const currentOffset = currentRowPushes.get(key)?.offset ?? 0
+    if (currentOffset) hasPushes = true
+
+    const rect = dom.getBoundingClientRect()
+    const visualTop = (rect.top - editorTop) / scale
+    const visualBottom = (rect.bottom - editorTop) / scale
+    const rowHeight = Math.max(0, toContentY(visualBottom) - toContentY(visualTop))
+    const naturalVisualTop = visualTop - currentOffset + shift + delta
+    const top = toContentY(naturalVisualTop)
+    let rowBottom = top + rowHeight
+    if (rowIndex < headerRows) headerHeight += visualBottom - visualTop
+
+    const page = findPageAt(geometry, top, 'content')
+    const contentHeight = getPageLayout(geometry, page).content.height
+    const pageStart = getPageContentStart(geometry, page)
+    const pageEnd = pageStart + contentHeight
+
+    // Header rows and the first body row move with the table instead
+    let push: TableRowPush | null = null
+    if (
+      rowIndex > headerRows && contentHeight > 0 && headerHeight + rowHeight <= contentHeight &&
+      top - pageStart > 0.5 && rowBottom - pageEnd > 0.5
+    ) {
+      const spacerHeight = Math.max(0, Math.ceil(getPageVisualTop(geometry, page + 1) - naturalVisualTop))
+      push = { offset: spacerHeight + headerHeight, spacerHeight, headerRows }
+      rowBottom = pageEnd + headerHeight + rowHeight
+      pushes.push([key, push])
+      pageStarts.push([page + 1, rowPos])
+      hasPushes = true
+    }
+
+    delta += (push?.offset ?? 0) - currentOffset
+    bottom = Math.max(bottom, rowBottom)
+  })
+
+  return { pushes, pageStarts, bottom: hasPushes ? bottom : null, delta }
+}
+
+/**
+ * Find the first document position inside a block that lands on a page
+ * starting at `pageVisualTop` (in the current, measured layout). Falls back to
+ * a proportional estimate when coordinates can't be resolved.
+ */
+function findPosAtPageStart(
+  view: EditorView,
+  node: ProseMirrorNode,
+  offset: number,
+  rect: DOMRect,
+  editorRect: DOMRect,
+  scale: number,
+  pageVisualTop: number,
+  fraction: number
+): number {
+  const from = offset + 1
+  const to = offset + node.nodeSize - 1
+  try {
+    const hit = view.posAtCoords({
+      left: rect.left + 1,
+      top: editorRect.top + (pageVisualTop + 1) * scale,
+    })
+    if (hit && hit.pos >= from && hit.pos <= to) return hit.pos
+  } catch {
+    // Layout not available (e.g. detached or non-rendering environment)
+  }
+  const clamped = Math.min(1, Math.max(0, fraction))
+  return Math.min(to, from + Math.round((to - from) * clamped))
+}
+
+/**
+ * Turn sparse per-page start positions into a dense, non-decreasing list of
+ * break positions for pages 2..pageCount. Pages without a start of their own
+ * (e.g. blank pages after a hard break) share the next page's start.
+ */
+function resolvePageBreakPositions(pageStarts: number[], pageCount: number, docSize: number): number[] {
+  const positions: number[] = new Array(Math.max(0, pageCount - 1))
+  let next = docSize
+  for (let page = pageCount - 1; page >= 1; page--) {
+    const start = pageStarts[page]
+    if (start !== undefined) next = Math.min(next, start)
+    positions[page - 1] = next
+  }
+  return positions
+}
+
+function buildPageRanges(pageBreakPositions: number[], docSize: number): PageRange[] {
+  const starts = [0, ...pageBreakPositions]
+  return starts.map((from, i) => ({
+    from,
+    to: i + 1 < starts.length ? starts[i + 1] : docSize,
+  }))
+}
+
+function findPageForPos(pageBreakPositions: number[], pos: number): number {
+  // Number of pages starting at or before `pos`; binary search keeps lookups
+  // cheap for long documents.
+  let low = 0
+  let high = pageBreakPositions.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (pageBreakPositions[mid] <= pos) low = mid + 1
+    else high = mid
+  }
+  return low + 1
+}
+
 /**
  * Hard/manual page breaks (screen)
  *
@@ -475,30 +2098,42 @@ function syncOverlayHorizontalInsets(view: EditorView, layout: PageLayoutDimensi
  * next content to begin at the top of the next page.
  *
  * We do this by adding a `margin-bottom` on the page break DOM node equal to
- * the remaining writable height in the current page's content area.
+ * the remaining writable height in the current page's content area. Odd/even
+ * page breaks add a blank page when the next page has the wrong parity.
+ *
+ * Section breaks are spaced the same way; the page after a top-level section
+ * break starts the next section, so walking the breaks in document order also
+ * yields the page each section starts on.
  *
  * IMPORTANT: This must be stable under the float-based overlay system.
  * We compute positions in a "content-only" coordinate system by subtracting
  * the inter-page overlay height for each full stride above the node.
  */
 function applyHardPageBreakSpacing(
-  editorDom: HTMLElement,
-  layout: PageLayoutDimensions,
-  pageGap: number,
+  view: EditorView,
+  renderedGeometry: PageGeometry,
+  sectionLayouts: PageLayoutDimensions[],
   scale: number
-) {
+): { minPageCount: number; sectionStartPages: number[] } {
+  const editorDom = view.dom as HTMLElement
   const breaks = Array.from(
     editorDom.querySelectorAll<HTMLElement>(
-      '[data-page-break], [data-page-break="true"], .page-break'
+      '[data-page-break], [data-page-break="true"], .page-break, [data-section-break]'
     )
   )
 
-  if (breaks.length === 0) return 1
+  const sectionStartPages = [0]
+  if (breaks.length === 0) return { minPageCount: 1, sectionStartPages }
+
+  // Top-level section break elements, in document order
+  const sectionBreaks = new Set<Node>()
+  view.state.doc.forEach((node, offset) => {
+    if (node.type.name !== SECTION_BREAK_NODE) return
+    const dom = view.nodeDOM(offset)
+    if (dom) sectionBreaks.add(dom)
+  })
 
   const editorRect = editorDom.getBoundingClientRect()
-  const interPage = layout.margins.bottom + pageGap + layout.margins.top
-  const stride = layout.content.height + interPage
-  const contentHeight = layout.content.height
 
   // Two-pass, stable computation:
   // - Measure using current layout
@@ -516,23 +2151,21 @@ function applyHardPageBreakSpacing(
   // is not currently present. Track a minimum required page count.
   let minRequiredPageCount = 1
   let cumulativeDeltaShift = 0
+  // Geometry of the sections placed so far
+  let geometry = createPageGeometry(sectionLayouts, sectionStartPages, renderedGeometry.pageGap)
 
   for (let i = 0; i < breaks.length; i++) {
     const el = breaks[i]
 
     const visualY = ((el.getBoundingClientRect().top - editorRect.top) / scale) + cumulativeDeltaShift
-    const yFromFirstContentTop = Math.max(0, visualY - layout.margins.top)
-
-    const visualPageIndex = stride > 0 ? Math.floor(yFromFirstContentTop / stride) : 0
-    const withinStride = yFromFirstContentTop - visualPageIndex * stride
     // Convert from visual coordinates (content + overlay per page) into a
     // content-only coordinate system by clamping the within-stride position.
     // This prevents overlay height (footer/gap/header) from polluting the
     // modulo math and causing incorrect remaining-space calculations.
-    const contentOnlyY = (visualPageIndex * contentHeight) + Math.min(withinStride, contentHeight)
-
-    const adjustedContentY = contentOnlyY
-    const withinPage = contentHeight > 0 ? (adjustedContentY % contentHeight) : 0
+    const adjustedContentY = toContentOnlyY(visualY, renderedGeometry)
+    const page = findPageAt(geometry, adjustedContentY, 'content')
+    const contentHeight = getPageLayout(geometry, page).content.height
+    const withinPage = contentHeight > 0 ? adjustedContentY - getPageContentStart(geometry, page) : 0
 
     // If we're exactly at a page boundary (withinPage === 0), a hard page break
     // should still advance one full page (creating a blank page if needed).
@@ -540,15 +2173,34 @@ function applyHardPageBreakSpacing(
       ? contentHeight
       : Math.max(0, contentHeight - withinPage)
 
+    // Odd/even page breaks skip a blank page when the next page has the
+    // wrong parity (page numbers are physical: page 1 is a right-hand page).
+    const breakType = normalizePageBreakType(el.getAttribute('data-break-type'))
+    const nextPageNumber = page + 2
+    const blankPages = (breakType === 'oddPage' && nextPageNumber % 2 === 0) ||
+      (breakType === 'evenPage' && nextPageNumber % 2 === 1)
+      ? 1
+      : 0
+    // No text crosses the overlay above the blank page, so its height has to be
+    // part of the spacing (with text, displaced lines account for it).
+    const blank = getPageLayout(geometry, page + 1)
+    const blankHeight = blankPages > 0
+      ? getPageLayout(geometry, page).margins.bottom + geometry.pageGap + blank.margins.top + blank.content.height
+      : 0
+
     // Ceil to a whole pixel so we don't keep chasing fractional layout shifts.
-    const desired = remaining > 0 ? Math.ceil(remaining) : 0
+    const desired = remaining > 0 ? Math.ceil(remaining + blankHeight) : 0
     desiredMargins[i] = desired
 
     if (contentHeight > 0) {
       // Page number (1-indexed) of the position after the hard break spacing.
-      const afterBreakY = adjustedContentY + desired
-      const requiredPages = Math.floor(afterBreakY / contentHeight) + 1
+      const requiredPages = page + 2 + blankPages
       if (requiredPages > minRequiredPageCount) minRequiredPageCount = requiredPages
+
+      if (sectionBreaks.has(el) && sectionStartPages.length < sectionLayouts.length) {
+        sectionStartPages.push(page + 1)
+        geometry = createPageGeometry(sectionLayouts, sectionStartPages, renderedGeometry.pageGap)
+      }
     }
 
     // Account for how changing THIS element's margin will shift everything after it.
@@ -567,7 +2219,7 @@ function applyHardPageBreakSpacing(
     }
   }
 
-  return minRequiredPageCount
+  return { minPageCount: minRequiredPageCount, sectionStartPages }
 }
 
 /**
@@ -582,12 +2234,13 @@ function applyHardPageBreakSpacing(
  * headers/footers to properly cover content with their white backgrounds.
  */
 function createPaginationContainer(
-  layout: PageLayoutDimensions,
-  pageGap: number,
+  geometry: PageGeometry,
   pageCount: number,
-  displayOptions: PageNumberDisplayOptions
+  displayOptions: PageNumberDisplayOptions,
+  headerFooter: HeaderFooterRenderContent
 ): HTMLElement {
-  const { margins, page, content } = layout
+  const { pageGap } = geometry
+  const { margins, page } = getPageLayout(geometry, 0)
   
   const container = document.createElement('div')
   container.className = PAGINATION_CONTAINER_CLASS
@@ -600,17 +2253,16 @@ function createPaginationContainer(
   
   for (let i = 1; i < pageCount; i++) {
     const pageNum = i + 1
+    // Layouts of the pages before and after this break (sections may differ)
+    const before = getPageLayout(geometry, i - 1)
+    const after = getPageLayout(geometry, i)
     
     // margin-top calculation:
     // First page break: margins.top + content.height (full first page)
     // Subsequent breaks: content.height only (content area per page)
     const marginTop = i === 1 
-      ? margins.top + content.height 
-      : content.height
-    
-    const pageNumberText = displayOptions.formatPageNumber
-      ? displayOptions.formatPageNumber(i, pageCount, displayOptions.separator)
-      : i + ' ' + displayOptions.separator + ' ' + pageCount
+      ? margins.top + before.content.height 
+      : before.content.height
     
     breaksHtml += '<div class="' + PAGE_BREAK_CLASS + '" data-page="' + pageNum + '">'
     
@@ -624,12 +2276,9 @@ function createPaginationContainer(
     // Footer
     // Draw the bottom separator line here so it stays within page width,
     // even if the gap extends wider to mask side shadows.
-    breaksHtml += '<div class="' + PAGE_FOOTER_CLASS + '" style="height:' + margins.bottom + 'px;padding-left:var(--ctp-overlay-offset-left, ' + margins.left + 'px);padding-right:var(--ctp-overlay-offset-right, ' + margins.right + 'px);background:white;box-shadow:inset 0 -1px 0 #e5e7eb;box-sizing:border-box;">'
-    breaksHtml += '<div style="display:grid;grid-template-columns:1fr 1fr 1fr;align-items:center;width:100%;height:100%;">'
-    breaksHtml += '<div style="text-align:left;"></div>'
-    breaksHtml += '<div style="text-align:center;"></div>'
-    breaksHtml += '<div style="text-align:right;color:#6b7280;font-size:12px;">' + (displayOptions.showPageNumbers ? pageNumberText : '') + '</div>'
-    breaksHtml += '</div></div>'
+    breaksHtml += '<div class="' + PAGE_FOOTER_CLASS + '" style="height:' + before.margins.bottom + 'px;' + getOverlayBoxStyle(before, geometry, i) + 'background:white;box-shadow:inset 0 -1px 0 #e5e7eb;box-sizing:border-box;">'
+    breaksHtml += renderPageHeaderFooter('footer', i, pageCount, headerFooter, displayOptions)
+    breaksHtml += '</div>'
     
     // Gap mask between pages:
     // - stays wider than the page to hide the continuous side shadow
@@ -639,12 +2288,9 @@ function createPaginationContainer(
     
     // Header
     // Draw the top separator line here so it stays within page width.
-    breaksHtml += '<div class="' + PAGE_HEADER_CLASS + '" style="height:' + margins.top + 'px;padding-left:var(--ctp-overlay-offset-left, ' + margins.left + 'px);padding-right:var(--ctp-overlay-offset-right, ' + margins.right + 'px);background:white;box-shadow:inset 0 1px 0 #e5e7eb;box-sizing:border-box;">'
-    breaksHtml += '<div style="display:grid;grid-template-columns:1fr 1fr 1fr;align-items:center;width:100%;height:100%;">'
-    breaksHtml += '<div style="text-align:left;"></div>'
-    breaksHtml += '<div style="text-align:center;"></div>'
-    breaksHtml += '<div style="text-align:right;"></div>'
-    breaksHtml += '</div></div>'
+    breaksHtml += '<div class="' + PAGE_HEADER_CLASS + '" style="height:' + after.margins.top + 'px;' + getOverlayBoxStyle(after, geometry, pageNum) + 'background:white;box-shadow:inset 0 1px 0 #e5e7eb;box-sizing:border-box;">'
+    breaksHtml += renderPageHeaderFooter('header', pageNum, pageCount, headerFooter, displayOptions)
+    breaksHtml += '</div>'
     
     breaksHtml += '</div>' // close .breaker
     breaksHtml += '</div>' // close page break
@@ -655,7 +2301,196 @@ function createPaginationContainer(
   return container
 }
 
-function createFirstPageHeader(layout: PageLayoutDimensions): HTMLElement {
+function hasBaseWidth(layout: PageLayoutDimensions, base: PageLayoutDimensions): boolean {
+  return layout.page.width === base.page.width &&
+    layout.margins.left === base.margins.left &&
+    layout.margins.right === base.margins.right
+}
+
+/**
+ * Width and horizontal offset of an overlay box for a page of another
+ * section. Such pages are centered on the first section's page.
+ */
+function getOverlayWidthStyle(layout: PageLayoutDimensions, geometry: PageGeometry): string {
+  const base = getPageLayout(geometry, 0)
+  if (hasBaseWidth(layout, base)) return ''
+  return 'width:' + layout.page.width + 'px;margin-left:' + (base.page.width - layout.page.width) / 2 + 'px;'
+}
+
+/**
+ * Width, offset and side padding of a (1-based) page's header/footer box.
+ * Mirrored pages of the first section swap the measured insets.
+ */
+function getOverlayBoxStyle(layout: PageLayoutDimensions, geometry: PageGeometry, pageNumber: number): string {
+  const base = getPageLayout(geometry, 0)
+  if (hasBaseWidth(layout, base)) {
+    const [left, right] = isMirroredPage(layout, pageNumber) ? ['right', 'left'] as const : ['left', 'right'] as const
+    return 'padding-left:var(--ctp-overlay-offset-' + left + ', ' + base.margins[left] + 'px);padding-right:var(--ctp-overlay-offset-' + right + ', ' + base.margins[right] + 'px);'
+  }
+  const margins = getPageMargins(layout, pageNumber)
+  return getOverlayWidthStyle(layout, geometry) + 'padding-left:' + margins.left + 'px;padding-right:' + margins.right + 'px;'
+}
+
+/**
+ * Horizontal margins moving a top-level block from the first section's
+ * content box into the content box of its own section and page. On a
+ * mirrored page the side margins are swapped.
+ */
+function getSectionBlockStyle(layout: PageLayoutDimensions, base: PageLayoutDimensions, mirrored = false): string | null {
+  if (hasBaseWidth(layout, base)) {
+    if (!mirrored) return null
+    const left = 'var(--ctp-overlay-offset-left, ' + base.margins.left + 'px)'
+    const right = 'var(--ctp-overlay-offset-right, ' + base.margins.right + 'px)'
+    return 'margin-left:calc(' + right + ' - ' + left + ');margin-right:calc(' + left + ' - ' + right + ');'
+  }
+  const inset = (base.page.width - layout.page.width) / 2
+  const margins = mirrored ? getPageMargins(layout, 2) : layout.margins
+  return 'margin-left:calc(' + (inset + margins.left) + 'px - var(--ctp-overlay-offset-left, ' + base.margins.left + 'px));' +
+    'margin-right:calc(' + (inset + margins.right) + 'px - var(--ctp-overlay-offset-right, ' + base.margins.right + 'px));'
+}
+
+/**
+ * Spacer in front of a block moved to the next page. Inside inline content
+ * it is a block-level span, so the moved content starts a new line.
+ */
+function createBlockPushSpacer(height: number, inline = false): HTMLElement {
+  const spacer = document.createElement(inline ? 'span' : 'div')
+  spacer.className = BLOCK_PUSH_SPACER_CLASS
+  spacer.setAttribute(PAGINATION_DATA_ATTR, 'true')
+  spacer.setAttribute('contenteditable', 'false')
+  spacer.style.cssText = (inline ? 'display:block;' : '') + 'height:' + height + 'px;margin:0;padding:0;pointer-events:none;user-select:none;'
+  return spacer
+}
+
+/**
+ * Spacer row in front of a table row pushed to the next page. It spans all
+ * columns and has no borders, so the table only shows the page break.
+ */
+function createTableRowSpacer(height: number, columns: number): HTMLElement {
+  const row = document.createElement('tr')
+  row.className = TABLE_ROW_SPACER_CLASS
+  row.setAttribute(PAGINATION_DATA_ATTR, 'true')
+  row.setAttribute('contenteditable', 'false')
+  row.style.cssText = 'pointer-events:none;user-select:none;'
+  const cell = document.createElement('td')
+  cell.colSpan = columns
+  cell.style.cssText = 'height:' + height + 'px;padding:0;border:none;background:transparent;'
+  row.appendChild(cell)
+  return row
+}
+
+/**
+ * Read-only copy of a header row, repeated at the top of a continuation page
+ */
+function createRepeatedHeaderRow(view: EditorView, row: ProseMirrorNode): HTMLElement {
+  const dom = DOMSerializer.fromSchema(view.state.schema).serializeNode(row) as HTMLElement
+  dom.classList.add(REPEATED_HEADER_ROW_CLASS)
+  dom.setAttribute(PAGINATION_DATA_ATTR, 'true')
+  dom.setAttribute('contenteditable', 'false')
+  dom.setAttribute('aria-hidden', 'true')
+  dom.style.userSelect = 'none'
+  return dom
+}
+
+function resolveHeaderFooterRenderContent(
+  attrs: Record<string, unknown>,
+  modes: HeaderFooterModes,
+  tokens: Pick<HeaderFooterTokenValues, 'date' | 'title'>
+): HeaderFooterRenderContent {
+  const resolve = (variant: HeaderFooterVariant) => ({
+    header: resolveHeaderFooterContent(attrs[HEADER_FOOTER_ATTRS[variant].header]),
+    footer: resolveHeaderFooterContent(attrs[HEADER_FOOTER_ATTRS[variant].footer]),
+  })
+  return {
+    differentFirstPage: modes.differentFirstPage,
+    differentOddEven: modes.differentOddEven,
+    variants: {
+      default: resolve('default'),
+      first: resolve('first'),
+      even: resolve('even'),
+    },
+    tokens,
+  }
+}
+
+/**
+ * Render the header or footer of a given (1-based) page, picking the
+ * first/even/default variant and filling in template tokens. With odd/even
+ * pages the page number position is mirrored on even pages so it stays on
+ * the outside edge.
+ */
+function renderPageHeaderFooter(
+  area: HeaderFooterArea,
+  pageNumber: number,
+  totalPages: number,
+  headerFooter: HeaderFooterRenderContent,
+  displayOptions: PageNumberDisplayOptions
+): string {
+  const variant = getHeaderFooterVariant(pageNumber, headerFooter)
+  const currentNumber = displayOptions.startNumber + pageNumber - 1
+  const lastNumber = displayOptions.startNumber + totalPages - 1
+  const tokens: HeaderFooterTokenValues = {
+    ...headerFooter.tokens,
+    page: formatPageNumberStyle(currentNumber, displayOptions.style),
+    pages: formatPageNumberStyle(lastNumber, displayOptions.style),
+  }
+
+  const { position } = displayOptions
+  let pageNumberText = ''
+  if (displayOptions.showPageNumbers && position.area === area) {
+    pageNumberText = displayOptions.formatPageNumber
+      ? displayOptions.formatPageNumber(currentNumber, lastNumber, displayOptions.separator)
+      : tokens.page + ' ' + escapeHtml(displayOptions.separator) + ' ' + tokens.pages
+  }
+  const pageNumberSlot = headerFooter.differentOddEven && pageNumber % 2 === 0
+    ? mirrorHeaderFooterSlot(position.slot)
+    : position.slot
+
+  return renderHeaderFooterSlots(
+    area,
+    variant,
+    headerFooter.variants[variant][area],
+    tokens,
+    pageNumberText,
+    pageNumberSlot
+  )
+}
+
+function mirrorHeaderFooterSlot(slot: HeaderFooterSlot): HeaderFooterSlot {
+  if (slot === 'left') return 'right'
+  if (slot === 'right') return 'left'
+  return slot
+}
+
+/**
+ * Render the three-column header/footer grid. Slot content is expected to be
+ * sanitized already. The page number fills its slot when that slot has no
+ * content of its own.
+ */
+function renderHeaderFooterSlots(
+  area: HeaderFooterArea,
+  variant: HeaderFooterVariant,
+  content: HeaderFooterContent,
+  tokens: HeaderFooterTokenValues,
+  pageNumberText: string,
+  pageNumberSlot: HeaderFooterSlot
+): string {
+  let html = '<div style="display:grid;grid-template-columns:1fr 1fr 1fr;align-items:center;width:100%;height:100%;">'
+  for (const slot of HEADER_FOOTER_SLOTS) {
+    let inner = replaceHeaderFooterTokens(content[slot] ?? '', tokens)
+    if (!inner && slot === pageNumberSlot) inner = pageNumberText
+    html += '<div class="' + HEADER_FOOTER_SLOT_CLASS + '" data-ctp-area="' + area + '" data-ctp-variant="' + variant + '" data-ctp-slot="' + slot + '" style="text-align:' + slot + ';color:#6b7280;font-size:12px;min-height:1em;">' + inner + '</div>'
+  }
+  html += '</div>'
+  return html
+}
+
+function createFirstPageHeader(
+  layout: PageLayoutDimensions,
+  pageCount: number,
+  displayOptions: PageNumberDisplayOptions,
+  headerFooter: HeaderFooterRenderContent
+): HTMLElement {
   const { margins, page } = layout
   
   const wrapper = document.createElement('div')
@@ -663,25 +2498,28 @@ function createFirstPageHeader(layout: PageLayoutDimensions): HTMLElement {
   wrapper.setAttribute('contenteditable', 'false')
   wrapper.style.cssText = 'position:relative;height:' + margins.top + 'px;margin-left:calc(-1 * var(--ctp-overlay-offset-left, ' + margins.left + 'px));margin-right:calc(-1 * var(--ctp-overlay-offset-right, ' + margins.right + 'px));width:' + page.width + 'px;display:flex;align-items:center;pointer-events:none;user-select:none;background:white;box-sizing:border-box;padding-left:var(--ctp-overlay-offset-left, ' + margins.left + 'px);padding-right:var(--ctp-overlay-offset-right, ' + margins.right + 'px);'
   
-  wrapper.innerHTML = '<div style="display:grid;grid-template-columns:1fr 1fr 1fr;align-items:center;width:100%;"><div style="text-align:left;"></div><div style="text-align:center;"></div><div style="text-align:right;"></div></div>'
+  wrapper.innerHTML = renderPageHeaderFooter('header', 1, pageCount, headerFooter, displayOptions)
   
   return wrapper
 }
 
 function createLastPageFooter(
-  layout: PageLayoutDimensions,
+  geometry: PageGeometry,
   totalPages: number,
   displayOptions: PageNumberDisplayOptions,
-  contentHeight: number
+  contentHeight: number,
+  headerFooter: HeaderFooterRenderContent
 ): HTMLElement {
-  const { margins, page, content } = layout
+  const { margins, page } = getPageLayout(geometry, 0)
+  const lastLayout = getPageLayout(geometry, totalPages - 1)
+  const { content } = lastLayout
   
   // Calculate filler height needed to push footer to bottom of page
   // contentHeight is the total measured content height across all pages
   // We need to determine how much content is on the last page
   
   // Total space used by pages before the last one
-  const previousPagesContentHeight = (totalPages - 1) * content.height
+  const previousPagesContentHeight = getPageContentStart(geometry, totalPages - 1)
   
   // Content on the last page is the remainder
   const lastPageContentHeight = Math.max(0, contentHeight - previousPagesContentHeight)
@@ -697,25 +2535,18 @@ function createLastPageFooter(
   wrapper.setAttribute('contenteditable', 'false')
   wrapper.style.cssText = 'position:relative;margin-left:calc(-1 * var(--ctp-overlay-offset-left, ' + margins.left + 'px));margin-right:calc(-1 * var(--ctp-overlay-offset-right, ' + margins.right + 'px));width:' + page.width + 'px;pointer-events:none;user-select:none;background:white;box-sizing:border-box;'
   
-  const pageNumberText = displayOptions.formatPageNumber
-    ? displayOptions.formatPageNumber(totalPages, totalPages, displayOptions.separator)
-    : totalPages + ' ' + displayOptions.separator + ' ' + totalPages
-  
   // Build HTML with filler and footer
   let html = ''
   
   // Filler to extend to bottom of content area
   if (fillerHeight > 0) {
-    html += '<div class="' + LAST_PAGE_FILLER_CLASS + '" style="height:' + fillerHeight + 'px;background:white;"></div>'
+    html += '<div class="' + LAST_PAGE_FILLER_CLASS + '" style="height:' + fillerHeight + 'px;' + getOverlayWidthStyle(lastLayout, geometry) + 'background:white;"></div>'
   }
   
   // Footer with page number
-  html += '<div class="' + LAST_PAGE_FOOTER_CONTENT_CLASS + '" style="height:' + margins.bottom + 'px;padding-left:var(--ctp-overlay-offset-left, ' + margins.left + 'px);padding-right:var(--ctp-overlay-offset-right, ' + margins.right + 'px);display:flex;align-items:center;box-sizing:border-box;">'
-  html += '<div style="display:grid;grid-template-columns:1fr 1fr 1fr;align-items:center;width:100%;">'
-  html += '<div style="text-align:left;"></div>'
-  html += '<div style="text-align:center;"></div>'
-  html += '<div style="text-align:right;color:#6b7280;font-size:12px;">' + (displayOptions.showPageNumbers ? pageNumberText : '') + '</div>'
-  html += '</div></div>'
+  html += '<div class="' + LAST_PAGE_FOOTER_CONTENT_CLASS + '" style="height:' + lastLayout.margins.bottom + 'px;' + getOverlayBoxStyle(lastLayout, geometry, totalPages) + 'display:flex;align-items:center;box-sizing:border-box;">'
+  html += renderPageHeaderFooter('footer', totalPages, totalPages, headerFooter, displayOptions)
+  html += '</div>'
   
   wrapper.innerHTML = html
   
@@ -723,11 +2554,12 @@ function createLastPageFooter(
 }
 
 function injectPaginationStyles() {
-  const existingStyle = document.getElementById('ctp-pagination-styles')
+  paginationStyleUsers++
+  const existingStyle = document.getElementById(PAGINATION_STYLES_ID)
   if (existingStyle) return
   
   const style = document.createElement('style')
-  style.id = 'ctp-pagination-styles'
+  style.id = PAGINATION_STYLES_ID
   style.textContent = `
     .${PAGINATION_CONTAINER_CLASS} {
       pointer-events: none;
@@ -755,6 +2587,45 @@ function injectPaginationStyles() {
       pointer-events: none;
       user-select: none;
     }
+    .${HEADER_FOOTER_EDITABLE_CLASS} .${HEADER_FOOTER_SLOT_CLASS} {
+      pointer-events: auto;
+      cursor: default;
+    }
+    .${HEADER_FOOTER_SLOT_CLASS} img {
+      max-height: 100%;
+      vertical-align: middle;
+    }
+    .${HEADER_FOOTER_EDITABLE_CLASS} .${HEADER_FOOTER_EDITING_CLASS} {
+      cursor: text;
+      user-select: text;
+      outline: 1px dashed #93c5fd;
+      outline-offset: 2px;
+    }
+    .${HEADER_FOOTER_EDITING_CLASS} * {
+      user-select: text;
+    }
+    /* Spread and grid views: the editor flows into one column per page,
+       wrapped into rows. Only set where column-wrap is supported. */
+    @media screen {
+      [${VIEW_MODE_ATTR}] {
+        column-count: var(--ctp-view-columns);
+        column-gap: var(--ctp-view-column-gap);
+        column-fill: auto;
+        column-height: var(--ctp-view-column-height);
+        column-wrap: wrap;
+        min-height: 0 !important;
+        overflow-anchor: none;
+      }
+      /* Page 1 is a right-hand page */
+      [${VIEW_MODE_ATTR}="spread"]::before {
+        content: '';
+        display: block;
+        break-after: column;
+      }
+      [${VIEW_MODE_ATTR}] .${BREAKER_CONTAINER_CLASS} > .${PAGE_HEADER_CLASS} {
+        break-before: column;
+      }
+    }
     @media print {
       .${PAGINATION_CONTAINER_CLASS} {
         display: none !important;
@@ -766,12 +2637,30 @@ function injectPaginationStyles() {
         break-before: page;
       }
       .${FIRST_PAGE_HEADER_CLASS},
-      .${LAST_PAGE_FOOTER_CLASS} {
+      .${LAST_PAGE_FOOTER_CLASS},
+      .${BLOCK_PUSH_SPACER_CLASS},
+      .${TABLE_ROW_SPACER_CLASS},
+      .${REPEATED_HEADER_ROW_CLASS} {
         display: none !important;
       }
+      /* Section pages are sized by their named @page rule, mirrored pages by @page :left */
+      [data-ctp-section],
+      [data-ctp-mirrored] {
+        margin-left: 0 !important;
+        margin-right: 0 !important;
+      }
     }
   `
   document.head.appendChild(style)
 }
 
+/**
+ * Release one editor's use of the shared pagination styles, removing them
+ * with the last editor
+ */
+function releasePaginationStyles() {
+  paginationStyleUsers = Math.max(0, paginationStyleUsers - 1)
+  if (paginationStyleUsers === 0) document.getElementById(PAGINATION_STYLES_ID)?.remove()
+}
+
 export default Pagination
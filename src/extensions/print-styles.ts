@@ -0,0 +1,232 @@
+/**
+ * Print Styles Utility
+ *
+ * Builds the `@page` rules used when printing (or saving as PDF) from the
+ * browser, so the printed pages match the editor:
+ *
+ * - `size` and `margin` from the document page setup (mirror margins use
+ *   `@page :left`)
+ * - one named page per section (`page: ctp-section-N`) for section breaks
+ * - running headers/footers and page numbers as CSS margin boxes
+ *
+ * Margin boxes only hold text: slot HTML is reduced to plain text (images are
+ * dropped) and `{page}` / `{pages}` become CSS page counters. A custom
+ * `formatPageNumber` callback can't run per printed page, so print falls back
+ * to the default `1 of 3` format.
+ */
+
+import type { HeaderFooterArea, HeaderFooterContent, HeaderFooterSlot, HeaderFooterVariant } from './header-footer'
+import { HEADER_FOOTER_SLOTS } from './header-footer'
+import type { Length, PageConfig } from './page-format'
+import { PAGE_FORMATS } from './page-format'
+import type { PageNumberStyle } from './page-number'
+import { formatPageNumberStyle } from './page-number'
+import type { HeaderFooterRenderContent, PageNumberDisplayOptions } from './pagination'
+
+export const PRINT_STYLES_ID = 'ctp-pagination-print-styles'
+
+export interface PrintPageRulesOptions {
+  /** Page setup of every section (index 0 = document) */
+  sections: PageConfig[]
+  headerFooter: HeaderFooterRenderContent
+  displayOptions: PageNumberDisplayOptions
+  /** Rendered page count, used for `{pages}` when numbering doesn't start at 1 */
+  pageCount: number
+}
+
+/** Page selector per header/footer variant (page 1 is a right page) */
+const VARIANT_SELECTORS: Record<HeaderFooterVariant, string> = {
+  default: '',
+  first: ':first',
+  even: ':left',
+}
+
+const TOKEN_SPLIT_PATTERN = /\{(page|pages|date|title)\}/
+
+const MARGIN_BOX_STYLE = 'font-size: 12px; color: #6b7280;'
+
+/**
+ * Name of the CSS named page used by a section (index > 0)
+ */
+export function getSectionPageName(section: number): string {
+  return `ctp-section-${section}`
+}
+
+function formatLength(px: number): string {
+  return `${Math.round(px * 100) / 100}px`
+}
+
+function toCssLength(length: Length): string {
+  return typeof length === 'number' ? formatLength(length) : length
+}
+
+/**
+ * Page margins in their authored units. The gutter is added to the left
+ * margin, which becomes the right one on mirrored (left-hand) pages.
+ */
+function getPageMarginDeclaration(config: PageConfig, mirrored = false): string {
+  const { top, right, bottom, left } = config.margins
+  const binding = config.gutter
+    ? `calc(${toCssLength(left)} + ${toCssLength(config.gutter)})`
+    : toCssLength(left)
+  const [marginLeft, marginRight] = mirrored ? [toCssLength(right), binding] : [binding, toCssLength(right)]
+  return `margin: ${toCssLength(top)} ${marginRight} ${toCssLength(bottom)} ${marginLeft};`
+}
+
+/**
+ * Page size and margins in their authored units (CSS pixels are physical
+ * when printing, so the layout DPI doesn't apply)
+ */
+function getPageBoxDeclarations(config: PageConfig): string {
+  const size = typeof config.format === 'string' ? PAGE_FORMATS[config.format].dimensions : config.format
+  const [width, height] = config.orientation === 'landscape' ? [size.height, size.width] : [size.width, size.height]
+  return `size: ${toCssLength(width)} ${toCssLength(height)}; ${getPageMarginDeclaration(config)}`
+}
+
+function toCssString(text: string): string {
+  return '"' + text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\A ') + '"'
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#\d+|amp|lt|gt|quot|nbsp);/g, (_match, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&'
+      case 'lt': return '<'
+      case 'gt': return '>'
+      case 'quot': return '"'
+      case 'nbsp': return ' '
+      default: return String.fromCharCode(parseInt(entity.slice(1), 10))
+    }
+  })
+}
+
+/**
+ * Reduce sanitized slot HTML to plain text
+ */
+export function headerFooterHtmlToText(html: string): string {
+  return decodeHtmlEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]*>/g, '')).trim()
+}
+
+function getCounterStyle(style: PageNumberStyle): string {
+  return style === 'arabic' ? 'decimal' : style
+}
+
+/**
+ * CSS `content` value for a header/footer slot (plain text with tokens)
+ */
+function toMarginBoxContent(text: string, options: PrintPageRulesOptions): string {
+  const { displayOptions, headerFooter, pageCount } = options
+  const counterStyle = getCounterStyle(displayOptions.style)
+  // The `pages` counter can't be offset by the start number
+  const pages = displayOptions.startNumber === 1
+    ? `counter(pages, ${counterStyle})`
+    : toCssString(formatPageNumberStyle(displayOptions.startNumber + pageCount - 1, displayOptions.style))
+
+  const parts = text.split(TOKEN_SPLIT_PATTERN).map((part, index) => {
+    if (index % 2 === 0) return part ? toCssString(part) : ''
+    if (part === 'page') return `counter(page, ${counterStyle})`
+    if (part === 'pages') return pages
+    return toCssString(headerFooter.tokens[part as 'date' | 'title'])
+  })
+  return parts.filter(Boolean).join(' ')
+}
+
+function getPageNumberContent(options: PrintPageRulesOptions): string {
+  return toMarginBoxContent(`{page} ${options.displayOptions.separator} {pages}`, options)
+}
+
+function mirrorSlot(slot: HeaderFooterSlot): HeaderFooterSlot {
+  if (slot === 'left') return 'right'
+  if (slot === 'right') return 'left'
+  return slot
+}
+
+/**
+ * Margin boxes of one header/footer variant. Variants other than the default
+ * override every box, so empty slots clear the default content.
+ */
+function getMarginBoxRules(variant: HeaderFooterVariant, options: PrintPageRulesOptions): string[] {
+  const { displayOptions, headerFooter } = options
+  const { position } = displayOptions
+  const numberSlot = variant === 'even' ? mirrorSlot(position.slot) : position.slot
+  const rules: string[] = []
+
+  for (const area of ['header', 'footer'] as HeaderFooterArea[]) {
+    const content: HeaderFooterContent = headerFooter.variants[variant][area]
+    for (const slot of HEADER_FOOTER_SLOTS) {
+      const text = headerFooterHtmlToText(content[slot] ?? '')
+      let value = text ? toMarginBoxContent(text, options) : ''
+      if (!value && displayOptions.showPageNumbers && position.area === area && slot === numberSlot) {
+        value = getPageNumberContent(options)
+      }
+      if (!value && variant === 'default') continue
+      const box = `@${area === 'header' ? 'top' : 'bottom'}-${slot}`
+      rules.push(`${box} { content: ${value || 'none'}; ${MARGIN_BOX_STYLE} }`)
+    }
+  }
+  return rules
+}
+
+/**
+ * Create the print stylesheet (`@page` rules) for the given page setup
+ */
+export function createPrintPageRules(options: PrintPageRulesOptions): string {
+  const { sections, headerFooter, displayOptions } = options
+  const lines: string[] = ['@media print {']
+
+  lines.push(`  @page { ${getPageBoxDeclarations(sections[0])} ${getMarginBoxRules('default', options).join(' ')} }`)
+  if (sections[0].mirrorMargins) {
+    lines.push(`  @page :left { ${getPageMarginDeclaration(sections[0], true)} }`)
+  }
+  if (headerFooter.differentOddEven) {
+    lines.push(`  @page ${VARIANT_SELECTORS.even} { ${getMarginBoxRules('even', options).join(' ')} }`)
+  }
+  if (headerFooter.differentFirstPage) {
+    lines.push(`  @page ${VARIANT_SELECTORS.first} { ${getMarginBoxRules('first', options).join(' ')} }`)
+  }
+  if (displayOptions.startNumber !== 1) {
+    // The page counter is reset before its automatic increment
+    lines.push(`  @page :first { counter-reset: page ${displayOptions.startNumber - 1}; }`)
+  }
+
+  for (let section = 1; section < sections.length; section++) {
+    const name = getSectionPageName(section)
+    lines.push(`  @page ${name} { ${getPageBoxDeclarations(sections[section])} }`)
+    if (sections[section].mirrorMargins) {
+      lines.push(`  @page ${name}:left { ${getPageMarginDeclaration(sections[section], true)} }`)
+    }
+    lines.push(`  [data-ctp-section="${section}"] { page: ${name}; }`)
+  }
+
+  lines.push('}')
+  return lines.join('\n')
+}
+
+/**
+ * Id of the print `<style>` element of one editor (`key` tells editors on
+ * the same page apart)
+ */
+export function getPrintStylesId(key: string): string {
+  return `${PRINT_STYLES_ID}-${key}`
+}
+
+/**
+ * Write an editor's print rules into its `<style>` element (created on demand)
+ */
+export function updatePrintStyles(css: string, key: string) {
+  const id = getPrintStylesId(key)
+  let style = document.getElementById(id)
+  if (!style) {
+    style = document.createElement('style')
+    style.id = id
+    document.head.appendChild(style)
+  }
+  if (style.textContent !== css) style.textContent = css
+}
+
+/**
+ * Remove an editor's print rules, leaving those of other editors
+ */
+export function removePrintStyles(key: string) {
+  document.getElementById(getPrintStylesId(key))?.remove()
+}
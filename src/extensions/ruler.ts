@@ -0,0 +1,136 @@
+/**
+ * Ruler Utilities
+ *
+ * Geometry behind the page rulers: tick marks in inches or centimeters, and
+ * the margin handles dragged along them. Positions are page pixels (at the
+ * layout DPI) measured from the page's left or top edge; the ruler
+ * components scale them to the zoom level.
+ *
+ * Handles edit the document margins (`setMargins`). The displayed left and
+ * right margins include the gutter and are swapped on mirrored pages, so each
+ * handle knows which margin it edits and how far it sits from the margin
+ * value.
+ */
+
+import type { Length, PageLayoutDimensions, PageMargins } from './page-format'
+import { DEFAULT_DPI, createLength, getPageMargins, isMirroredPage, lengthToPixels } from './page-format'
+
+export type RulerUnit = 'in' | 'cm'
+
+export const RULER_UNITS: RulerUnit[] = ['in', 'cm']
+
+export type RulerAxis = 'horizontal' | 'vertical'
+
+/** Smallest writable area left between two margin handles, in pixels */
+export const MIN_CONTENT_SIZE = 48
+
+interface RulerScale {
+  /** Ticks per unit (labels on whole units, longer ticks on halves) */
+  subdivisions: number
+  /** Snap step in units */
+  snap: number
+}
+
+const RULER_SCALES: Record<RulerUnit, RulerScale> = {
+  in: { subdivisions: 8, snap: 0.125 },
+  cm: { subdivisions: 4, snap: 0.25 },
+}
+
+// Margins dragged without snapping are rounded to this step
+const FREE_STEP = 0.01
+
+const OPPOSITE_SIDES: Record<keyof PageMargins, keyof PageMargins> = {
+  top: 'bottom',
+  bottom: 'top',
+  left: 'right',
+  right: 'left',
+}
+
+export interface RulerTick {
+  /** Distance from the page edge in pixels */
+  position: number
+  /** Distance from the page edge in ruler units */
+  value: number
+  kind: 'major' | 'half' | 'minor'
+}
+
+export interface MarginHandle {
+  /** Edge of the page the handle is drawn next to */
+  side: keyof PageMargins
+  /** Document margin the handle edits */
+  margin: keyof PageMargins
+  /** Distance from the page's left/top edge in pixels */
+  position: number
+  /** Pixels between the page edge and the margin (the gutter) */
+  offset: number
+}
+
+/**
+ * Tick marks along a page edge of the given length (pixels)
+ */
+export function getRulerTicks(length: number, unit: RulerUnit, dpi: number = DEFAULT_DPI): RulerTick[] {
+  const { subdivisions } = RULER_SCALES[unit]
+  const tickSize = lengthToPixels(1 / subdivisions, unit, dpi)
+  const count = Math.floor(length / tickSize + 1e-6)
+  const ticks: RulerTick[] = []
+  for (let index = 0; index <= count; index++) {
+    const kind = index % subdivisions === 0 ? 'major' : index % (subdivisions / 2) === 0 ? 'half' : 'minor'
+    ticks.push({ position: index * tickSize, value: index / subdivisions, kind })
+  }
+  return ticks
+}
+
+/**
+ * Snap step of a ruler unit
+ */
+export function getRulerSnap(unit: RulerUnit): number {
+  return RULER_SCALES[unit].snap
+}
+
+/**
+ * Margin handles of a 1-based page along one axis
+ */
+export function getMarginHandles(layout: PageLayoutDimensions, pageNumber: number, axis: RulerAxis): MarginHandle[] {
+  const { page, gutter } = layout
+  const margins = getPageMargins(layout, pageNumber)
+  if (axis === 'vertical') {
+    return [
+      { side: 'top', margin: 'top', position: margins.top, offset: 0 },
+      { side: 'bottom', margin: 'bottom', position: page.height - margins.bottom, offset: 0 },
+    ]
+  }
+  // The gutter sits on the binding edge: left on odd pages, right on mirrored pages
+  const mirrored = isMirroredPage(layout, pageNumber)
+  return [
+    { side: 'left', margin: mirrored ? 'right' : 'left', position: margins.left, offset: mirrored ? 0 : gutter },
+    { side: 'right', margin: mirrored ? 'left' : 'right', position: page.width - margins.right, offset: mirrored ? gutter : 0 },
+  ]
+}
+
+/**
+ * Margin length for a handle dragged to `position` (pixels from the page's
+ * left/top edge). The margin is snapped to the ruler unit and keeps at least
+ * `MIN_CONTENT_SIZE` pixels of writable area.
+ */
+export function getDraggedMargin(
+  layout: PageLayoutDimensions,
+  pageNumber: number,
+  handle: MarginHandle,
+  position: number,
+  unit: RulerUnit,
+  options: { snap?: boolean; dpi?: number } = {}
+): Length {
+  const { snap = true, dpi = DEFAULT_DPI } = options
+  const margins = getPageMargins(layout, pageNumber)
+  const vertical = handle.side === 'top' || handle.side === 'bottom'
+  const size = vertical ? layout.page.height : layout.page.width
+  const opposite = margins[OPPOSITE_SIDES[handle.side]]
+  const fromEdge = handle.side === 'top' || handle.side === 'left' ? position : size - position
+
+  const step = snap ? RULER_SCALES[unit].snap : FREE_STEP
+  const unitSize = lengthToPixels(1, unit, dpi)
+  const max = Math.floor((size - opposite - MIN_CONTENT_SIZE - handle.offset) / unitSize / step + 1e-6) * step
+  const value = Math.min(Math.max(Math.round((fromEdge - handle.offset) / unitSize / step) * step, 0), Math.max(max, 0))
+  // Drop floating point noise (0.30000000000000004cm)
+  return createLength(parseFloat(value.toFixed(3)), unit)
+}
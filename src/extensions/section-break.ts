@@ -0,0 +1,228 @@
+import { Node, mergeAttributes } from '@tiptap/core'
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model'
+import {
+  Length,
+  PageConfig,
+  PageFormatName,
+  PageMarginLengths,
+  PageOrientation,
+  PageSizeLengths,
+  createPageConfig,
+  normalizePageFormat,
+  normalizePageMargins,
+} from './page-format'
+
+export interface SectionBreakOptions {
+  /**
+   * HTML attributes to add to the section break element
+   */
+  HTMLAttributes: Record<string, unknown>
+}
+
+/**
+ * Page setup carried by a section break. Unset values are inherited from the
+ * previous section; unset margins fall back to the format's default margins.
+ */
+export interface SectionPageConfig {
+  format: PageFormatName | PageSizeLengths | null
+  orientation: PageOrientation | null
+  margins: Partial<PageMarginLengths>
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    sectionBreak: {
+      /**
+       * Insert a section break; the following content starts a new section on
+       * a new page using the given page setup
+       */
+      setSectionBreak: (config?: Partial<SectionPageConfig>) => ReturnType
+    }
+  }
+}
+
+export const SECTION_BREAK_NODE = 'sectionBreak'
+
+// Custom sizes are written as `WIDTHxHEIGHT`, e.g. `600x800` or `210mmx297mm`
+const SIZE_PATTERN = /^(\d+(?:\.\d+)?(?:px|mm|cm|in|pt)?)x(\d+(?:\.\d+)?(?:px|mm|cm|in|pt)?)$/
+
+function parseSizeLength(value: string): Length {
+  return /\d$/.test(value) ? parseFloat(value) : value as Length
+}
+
+function parseFormat(value: string | null): PageFormatName | PageSizeLengths | null {
+  if (!value) return null
+  const match = SIZE_PATTERN.exec(value)
+  return match
+    ? normalizePageFormat({ width: parseSizeLength(match[1]), height: parseSizeLength(match[2]) })
+    : normalizePageFormat(value)
+}
+
+function parseMargins(value: string | null): Partial<PageMarginLengths> {
+  if (!value) return {}
+  try {
+    return normalizePageMargins(JSON.parse(value))
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Read the page setup of a section break node
+ */
+export function getSectionPageConfig(node: ProseMirrorNode): SectionPageConfig {
+  return {
+    format: normalizePageFormat(node.attrs.format),
+    orientation: node.attrs.orientation ?? null,
+    margins: normalizePageMargins(node.attrs.margins),
+  }
+}
+
+/**
+ * Resolve a section's page setup against the previous section's config
+ */
+export function resolveSectionPageConfig(section: SectionPageConfig, previous: PageConfig): PageConfig {
+  const format = section.format ?? previous.format
+  const orientation = section.orientation ?? previous.orientation
+  // Same format: keep the previous margins unless overridden
+  const inheritedMargins = section.format === null ? previous.margins : {}
+  // Binding (mirror margins, gutter) is a document setting
+  return createPageConfig(format, orientation, { ...inheritedMargins, ...section.margins }, previous)
+}
+
+/**
+ * Page configs of all sections in document order. The first section uses the
+ * document config, every top-level section break starts a new one.
+ */
+export function getSectionPageConfigs(doc: ProseMirrorNode, documentConfig: PageConfig): PageConfig[] {
+  const configs = [documentConfig]
+  doc.forEach(node => {
+    if (node.type.name !== SECTION_BREAK_NODE) return
+    configs.push(resolveSectionPageConfig(getSectionPageConfig(node), configs[configs.length - 1]))
+  })
+  return configs
+}
+
+function describeSection(config: SectionPageConfig): string {
+  const parts: string[] = []
+  if (typeof config.format === 'string') parts.push(config.format)
+  else if (config.format) parts.push(`${config.format.width} × ${config.format.height}`)
+  if (config.orientation) parts.push(config.orientation === 'landscape' ? 'Landscape' : 'Portrait')
+  return parts.length > 0 ? `Section Break (${parts.join(', ')})` : 'Section Break'
+}
+
+/**
+ * SectionBreak Extension
+ *
+ * A block atom that ends the current section: the following content starts on
+ * a new page laid out with the section break's own page format, orientation
+ * and margins (e.g. a landscape schedule inside a portrait contract).
+ *
+ * Usage:
+ * - editor.commands.setSectionBreak({ orientation: 'landscape' })
+ */
+export const SectionBreak = Node.create<SectionBreakOptions>({
+  name: SECTION_BREAK_NODE,
+
+  group: 'block',
+
+  atom: true,
+
+  selectable: true,
+
+  draggable: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {
+        class: 'section-break',
+      },
+    }
+  },
+
+  addAttributes() {
+    return {
+      format: {
+        default: null,
+        parseHTML: element => parseFormat(element.getAttribute('data-format')),
+        renderHTML: attributes => {
+          const format = attributes.format as SectionPageConfig['format']
+          if (!format) return {}
+          return { 'data-format': typeof format === 'string' ? format : `${format.width}x${format.height}` }
+        },
+      },
+      orientation: {
+        default: null,
+        parseHTML: element => {
+          const value = element.getAttribute('data-orientation')
+          return value === 'portrait' || value === 'landscape' ? value : null
+        },
+        renderHTML: attributes => (attributes.orientation ? { 'data-orientation': attributes.orientation } : {}),
+      },
+      margins: {
+        default: {},
+        parseHTML: element => parseMargins(element.getAttribute('data-margins')),
+        renderHTML: attributes => {
+          const margins = normalizePageMargins(attributes.margins)
+          return Object.keys(margins).length > 0 ? { 'data-margins': JSON.stringify(margins) } : {}
+        },
+      },
+    }
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-section-break]',
+      },
+    ]
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    const label = describeSection(getSectionPageConfig(node))
+    const attrs = mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+      'data-section-break': 'true',
+      'data-section-label': label,
+      'contenteditable': 'false',
+    }) as Record<string, unknown>
+
+    // Keep the canonical `.section-break` marker, like `.page-break`
+    const existingClass = typeof attrs.class === 'string' ? attrs.class : ''
+    const classSet = new Set(existingClass.split(/\s+/).filter(Boolean))
+    classSet.add('section-break')
+    attrs.class = Array.from(classSet).join(' ')
+
+    return [
+      'div',
+      attrs,
+      [
+        'div',
+        { class: 'section-break-content' },
+        [
+          'span',
+          { class: 'section-break-label' },
+          label,
+        ],
+      ],
+    ]
+  },
+
+  addCommands() {
+    return {
+      setSectionBreak:
+        (config = {}) =>
+        ({ commands }) => {
+          return commands.insertContent({
+            type: this.name,
+            attrs: {
+              format: config.format ?? null,
+              orientation: config.orientation ?? null,
+              margins: normalizePageMargins(config.margins),
+            },
+          })
+        },
+    }
+  },
+})
+
+export default SectionBreak